@@ -0,0 +1,275 @@
+import { AudioDeviceType, DeviceInfo, DeviceState, NcState, AcState } from './types';
+import { SDKEvent, ConnectionState, DeviceTransitionEvent } from './events';
+import { SDKEventEmitter } from './event-emitter';
+import { StateManager } from './state-manager';
+import { TimerScheduler, defaultScheduler } from './timers';
+
+const DEFAULT_GRACE_PERIOD = 30000;
+
+const DIRECTIONS = [AudioDeviceType.microphone, AudioDeviceType.speaker];
+
+/**
+ * A physical device change while a call was in progress
+ */
+export interface CallDeviceSwitch extends DeviceTransitionEvent {
+  at: number;
+}
+
+/**
+ * Percentage (0-100) of call time a feature was enabled, per direction
+ */
+export interface FeatureCoverage {
+  microphone: number;
+  speaker: number;
+}
+
+/**
+ * Why a call session ended:
+ * - `call_ended`: Krisp Desktop reported the call is over
+ * - `connection_lost`: the SDK stayed disconnected longer than the grace period,
+ *   or was disconnected with `disconnect()`
+ */
+export type CallEndReason = 'call_ended' | 'connection_lost';
+
+export interface CallSession {
+  id: string;
+  startedAt: number;
+  /**
+   * Null while the call is in progress
+   */
+  endedAt: number | null;
+  /**
+   * Length of the call in ms, up to now while it is in progress
+   */
+  duration: number;
+  endReason?: CallEndReason;
+  /**
+   * Every physical device used during the call, per direction
+   */
+  devices: {
+    microphone: DeviceInfo[];
+    speaker: DeviceInfo[];
+  };
+  deviceSwitches: CallDeviceSwitch[];
+  coverage: {
+    nc: FeatureCoverage;
+    ac: FeatureCoverage;
+  };
+}
+
+export interface CallSessionTrackerOptions {
+  /**
+   * How long a call survives a lost connection before it is ended, in ms (default: 30000)
+   */
+  gracePeriod?: number;
+  now?: () => number;
+  schedule?: TimerScheduler;
+}
+
+interface FeatureTracking {
+  enabled: { [D in AudioDeviceType]: boolean };
+  enabledMs: { [D in AudioDeviceType]: number };
+}
+
+interface ActiveSession {
+  id: string;
+  startedAt: number;
+  devices: { [D in AudioDeviceType]: Map<string, DeviceInfo> };
+  deviceSwitches: CallDeviceSwitch[];
+  nc: FeatureTracking;
+  ac: FeatureTracking;
+  /**
+   * Time up to which feature coverage has been counted
+   */
+  accountedAt: number;
+}
+
+function featureTracking(state: NcState | AcState | null): FeatureTracking {
+  return {
+    enabled: {
+      [AudioDeviceType.microphone]: state?.[AudioDeviceType.microphone].enabled ?? false,
+      [AudioDeviceType.speaker]: state?.[AudioDeviceType.speaker].enabled ?? false,
+    },
+    enabledMs: { [AudioDeviceType.microphone]: 0, [AudioDeviceType.speaker]: 0 },
+  };
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.min(100, (part / total) * 100) : 0;
+}
+
+/**
+ * Turns `IN_CALL_CHANGED` into call sessions, emitting `CALL_STARTED` and
+ * `CALL_ENDED`. A call in progress survives a lost connection for the grace
+ * period, so a brief disconnect does not split it in two.
+ */
+export class CallSessionTracker {
+  private session: ActiveSession | null = null;
+  private sequence = 0;
+  private disconnectedAt: number | null = null;
+  private cancelGraceTimer: (() => void) | null = null;
+
+  constructor(
+    private events: SDKEventEmitter,
+    private stateManager: StateManager,
+    private options: CallSessionTrackerOptions = {}
+  ) {
+    events.on(SDKEvent.IN_CALL_CHANGED, ({ current }) => {
+      if (current.inCall && !this.session) {
+        this.start();
+      } else if (!current.inCall && this.session) {
+        this.end('call_ended', this.now());
+      }
+    });
+    events.on(SDKEvent.NOISE_CANCELLATION_CHANGED, ({ current }) => this.updateFeature('nc', current));
+    events.on(SDKEvent.ACCENT_CONVERSION_CHANGED, ({ current }) => this.updateFeature('ac', current));
+    events.on(SDKEvent.DEVICES_CHANGED, ({ current }) => this.addDevices(current));
+    events.on(SDKEvent.PHYSICAL_DEVICE_SWITCHED, (transition) => {
+      this.session?.deviceSwitches.push({ ...transition, at: this.now() });
+    });
+    events.on(SDKEvent.CONNECTION_CHANGED, (state) => this.handleConnectionChange(state));
+  }
+
+  /**
+   * The call in progress, or null when not in a call
+   */
+  public getCurrentSession(): CallSession | null {
+    return this.session ? this.toCallSession(this.session, null) : null;
+  }
+
+  private start(): void {
+    const now = this.now();
+    this.session = {
+      id: `call-${now.toString(36)}-${++this.sequence}`,
+      startedAt: now,
+      devices: { [AudioDeviceType.microphone]: new Map(), [AudioDeviceType.speaker]: new Map() },
+      deviceSwitches: [],
+      nc: featureTracking(this.stateManager.getNcState()),
+      ac: featureTracking(this.stateManager.getAcState()),
+      accountedAt: now,
+    };
+    const devices = this.stateManager.getDeviceState();
+    if (devices) {
+      this.addDevices(devices);
+    }
+    this.events.emit(SDKEvent.CALL_STARTED, this.toCallSession(this.session, null));
+  }
+
+  private end(reason: CallEndReason, endedAt: number): void {
+    const session = this.session!;
+    this.session = null;
+    this.clearGraceTimer();
+    this.account(session, endedAt);
+    this.events.emit(SDKEvent.CALL_ENDED, this.toCallSession(session, endedAt, reason));
+  }
+
+  private handleConnectionChange(state: ConnectionState): void {
+    if (state.connected) {
+      this.disconnectedAt = null;
+      this.clearGraceTimer();
+      // A call still going on after its session ended as `connection_lost`
+      // raises no IN_CALL_CHANGED; a snapshot-loaded state waits for live data
+      if (
+        !this.session &&
+        this.stateManager.getInCallState()?.inCall &&
+        !this.stateManager.getFreshness('in_call').cached
+      ) {
+        this.start();
+      }
+      return;
+    }
+    if (!this.session) {
+      return;
+    }
+    if (state.state === 'closed') {
+      this.end('connection_lost', this.now());
+      return;
+    }
+    if (this.disconnectedAt === null) {
+      const disconnectedAt = this.now();
+      this.disconnectedAt = disconnectedAt;
+      const schedule = this.options.schedule ?? defaultScheduler;
+      this.cancelGraceTimer = schedule(() => {
+        this.cancelGraceTimer = null;
+        if (this.session) {
+          this.end('connection_lost', disconnectedAt);
+        }
+      }, this.options.gracePeriod ?? DEFAULT_GRACE_PERIOD);
+    }
+  }
+
+  private updateFeature(feature: 'nc' | 'ac', state: NcState | AcState): void {
+    if (!this.session) {
+      return;
+    }
+    this.account(this.session, this.now());
+    DIRECTIONS.forEach((direction) => {
+      this.session![feature].enabled[direction] = state[direction].enabled;
+    });
+  }
+
+  private addDevices(state: DeviceState): void {
+    if (!this.session) {
+      return;
+    }
+    DIRECTIONS.forEach((direction) => {
+      const device = state[direction].physicalDeviceInfo;
+      if (device) {
+        this.session!.devices[direction].set(device.id, device);
+      }
+    });
+  }
+
+  /**
+   * Count feature time up to `at` using the last known enabled states
+   */
+  private account(session: ActiveSession, at: number): void {
+    const elapsed = Math.max(0, at - session.accountedAt);
+    [session.nc, session.ac].forEach((tracking) => {
+      DIRECTIONS.forEach((direction) => {
+        if (tracking.enabled[direction]) {
+          tracking.enabledMs[direction] += elapsed;
+        }
+      });
+    });
+    session.accountedAt = Math.max(session.accountedAt, at);
+  }
+
+  private toCallSession(session: ActiveSession, endedAt: number | null, endReason?: CallEndReason): CallSession {
+    const until = endedAt ?? this.now();
+    const duration = Math.max(0, until - session.startedAt);
+    const coverage = (tracking: FeatureTracking): FeatureCoverage => {
+      // Time since the last accounting, for sessions still in progress
+      const pending = Math.max(0, until - session.accountedAt);
+      const enabledMs = (direction: AudioDeviceType) =>
+        tracking.enabledMs[direction] + (tracking.enabled[direction] ? pending : 0);
+      return {
+        microphone: percentage(enabledMs(AudioDeviceType.microphone), duration),
+        speaker: percentage(enabledMs(AudioDeviceType.speaker), duration),
+      };
+    };
+
+    return {
+      id: session.id,
+      startedAt: session.startedAt,
+      endedAt,
+      duration,
+      endReason,
+      devices: {
+        microphone: Array.from(session.devices[AudioDeviceType.microphone].values()),
+        speaker: Array.from(session.devices[AudioDeviceType.speaker].values()),
+      },
+      deviceSwitches: [...session.deviceSwitches],
+      coverage: { nc: coverage(session.nc), ac: coverage(session.ac) },
+    };
+  }
+
+  private clearGraceTimer(): void {
+    this.cancelGraceTimer?.();
+    this.cancelGraceTimer = null;
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
@@ -1,22 +1,98 @@
-import { Socket, io, ManagerOptions, SocketOptions } from 'socket.io-client';
+import { io, ManagerOptions, SocketOptions } from 'socket.io-client';
 import { ErrorCode, KrispSDKError } from './errors';
-import { ServerToClientMessages } from './types';
+import { ReconnectPolicy, ReconnectSchedule, exponentialBackoff } from './reconnect-policy';
+import {
+  ConnectionStateMachine,
+  ConnectionLifecycleState,
+  ConnectionTransition,
+  TransitionDetails,
+  isConnectingState,
+} from './connection-state-machine';
+import { Logger, noopLogger, withFields, errorFields } from './logger';
+import { PROTOCOL_VERSION } from './server-info';
+import { Transport, WireSocket } from './transport';
+import { WireCapture } from './wire-capture';
+import { HeartbeatStats } from './heartbeat';
 
 const DEFAULT_HOST = '127.0.0.1';
 const DEFAULT_PORTS = [50190, 50191, 50192];
 const DEFAULT_CONNECTION_TIMEOUT = 5000;
+const DEFAULT_REDISCOVER_AFTER_ATTEMPTS = 3;
 const MAX_RECONNECT_DELAY = 30000;
+const HOST_ENV_VAR = 'KRISP_MONITORING_HOST';
+const PORTS_ENV_VAR = 'KRISP_MONITORING_PORTS';
+
+/**
+ * How candidate ports are probed on connect:
+ * - `sequential`: try each port in order until one connects
+ * - `parallel`: probe all ports at once and keep the first that answers
+ */
+export type DiscoveryMode = 'sequential' | 'parallel';
 
 export interface ConnectionOptions {
+  /**
+   * Host to connect to (default: 127.0.0.1, env: KRISP_MONITORING_HOST)
+   */
+  host?: string;
+  /**
+   * Candidate ports in order of preference (default: 50190-50192, env: KRISP_MONITORING_PORTS)
+   */
+  ports?: number[];
+  discovery?: DiscoveryMode;
   connectionTimeout?: number;
   autoReconnect?: boolean;
   maxReconnectAttempts?: number;
+  /**
+   * Decides when to retry after an unexpected disconnect
+   * (default: exponential backoff with full jitter, capped at 30 s)
+   */
+  reconnectPolicy?: ReconnectPolicy;
+  /**
+   * Rerun the full port scan after this many failed reconnect attempts on the
+   * last known port, e.g. when Krisp Desktop restarted on another port (default: 3, 0 disables)
+   */
+  rediscoverAfterAttempts?: number;
+  /**
+   * Receives the SDK's diagnostic output (default: discard it)
+   */
+  logger?: Logger;
+  /**
+   * Records every raw inbound and outbound Socket.IO event of the connection
+   */
+  capture?: WireCapture;
+  /**
+   * Opens the sockets (default: socket.io-client), e.g. a `ReplayTransport`
+   */
+  transport?: Transport;
+}
+
+export interface PortProbeResult {
+  port: number;
+  reachable: boolean;
+  /**
+   * Time until the handshake completed or failed, in ms
+   */
+  latency: number;
+  error?: string;
 }
 
 export interface ConnectionStatus {
+  state: ConnectionLifecycleState;
   connected: boolean;
   connecting: boolean;
   port?: number;
+  /**
+   * Set on the first connected status after reconnecting on a different port
+   */
+  previousPort?: number;
+  /**
+   * Set while waiting for the next reconnect attempt
+   */
+  reconnect?: ReconnectSchedule;
+  /**
+   * Latency of recent heartbeats, when the heartbeat is enabled
+   */
+  heartbeat?: HeartbeatStats;
   error?: {
     code: string;
     message: string;
@@ -24,129 +100,194 @@ export interface ConnectionStatus {
 }
 
 export class ConnectionManager {
-  private socket: Socket | null = null;
+  private socket: WireSocket | null = null;
   private currentPort: number | undefined = undefined;
-  private isConnecting = false;
   private connectionTimeoutTimer: NodeJS.Timeout | null = null;
+  // Rejects the connection attempt in flight; a socket closed before it
+  // connected reports neither an error nor a disconnect
+  private abortConnect: ((error: KrispSDKError) => void) | null = null;
+  private host: string;
+  private ports: number[];
+  private migratedFromPort: number | undefined = undefined;
+  private reconnectPolicy: ReconnectPolicy;
+  private logger: Logger;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt = 0;
+  private stateMachine: ConnectionStateMachine;
+  private statusExtras: Pick<ConnectionStatus, 'previousPort' | 'reconnect'> = {};
+  private connectPromise: Promise<void> | null = null;
+  private reconnectWaiters: Array<{ resolve: () => void; reject: (error: KrispSDKError) => void }> = [];
+  // Bumped on every disconnect() so stale connect attempts and reconnect loops stop
+  private generation = 0;
 
   constructor(
     private options: ConnectionOptions = {},
-    private onMessage: (event: keyof ServerToClientMessages, data: any) => void,
-    private onConnectionChange: (status: ConnectionStatus) => void
-  ) {}
+    private onMessage: (event: string, data: any) => void,
+    private onConnectionChange: (status: ConnectionStatus, transition: ConnectionTransition) => void
+  ) {
+    this.host = readEnv(HOST_ENV_VAR) || options.host || DEFAULT_HOST;
+    this.ports = parsePorts(readEnv(PORTS_ENV_VAR)) ?? options.ports ?? DEFAULT_PORTS;
+    this.reconnectPolicy = options.reconnectPolicy ?? exponentialBackoff({ maxDelay: MAX_RECONNECT_DELAY });
+    this.logger = withFields(options.logger ?? noopLogger, { component: 'ConnectionManager' });
+    this.stateMachine = new ConnectionStateMachine(
+      (transition) => this.handleTransition(transition),
+      this.logger
+    );
+  }
 
-  public async connect(): Promise<void> {
+  /**
+   * Connect to the first reachable candidate port. Concurrent calls share the
+   * same in-flight attempt; while auto-reconnecting, resolves once reconnected.
+   */
+  public connect(): Promise<void> {
     if (this.socket?.connected) {
-      return;
+      return Promise.resolve();
     }
 
-    if (this.isConnecting) {
-      return;
+    if (this.connectPromise) {
+      return this.connectPromise;
     }
 
-    this.isConnecting = true;
-    this.onConnectionChange({
-      connected: false,
-      connecting: true,
+    const state = this.stateMachine.getState();
+    if (state === 'backoff' || state === 'reconnecting' || (state === 'discovering' && this.reconnectAttempt > 0)) {
+      return new Promise((resolve, reject) => {
+        this.reconnectWaiters.push({ resolve, reject });
+      });
+    }
+
+    const connectPromise = this.establish(this.generation).finally(() => {
+      if (this.connectPromise === connectPromise) {
+        this.connectPromise = null;
+      }
     });
+    this.connectPromise = connectPromise;
+    return connectPromise;
+  }
+
+  private async establish(generation: number): Promise<void> {
+    const parallel = this.options.discovery === 'parallel';
+
+    // Drop a socket left over from a failed or closed connection
+    this.discardSocket();
 
     try {
-      // Try each port in sequence
-      const ports = DEFAULT_PORTS;
-      const host = DEFAULT_HOST;
+      let ports = this.ports;
+      let discovered: WireSocket | undefined;
+      if (parallel) {
+        // In parallel mode the first port that answered is kept as the connection
+        this.transition('discovering', { reason: 'connect' });
+        const discovery = await this.findFirstResponsivePort(generation);
+        ports = [discovery.port];
+        discovered = discovery.socket;
+      }
+
       let lastError: Error | null = null;
 
       for (const port of ports) {
         try {
           this.currentPort = port;
-          await this.connectToPort(port);
-          
-          // Success!
-          this.isConnecting = false;
-
-          this.onConnectionChange({
-            connected: true,
-            connecting: false,
-            port,
-          });
-          return; // Success, exit
+          this.transition('connecting', { reason: parallel ? 'port_discovered' : 'connect', port });
+          await this.connectToPort(port, generation, discovered);
+          return; // Success, the connect handler moved to 'connected'
         } catch (error) {
-          // Clean up failed socket
-          if (this.socket) {
-            this.socket.removeAllListeners();
-            this.socket.close();
-            this.socket = null;
-          }
+          this.ensureGeneration(generation);
+          this.logger.debug('Port not reachable', { port, ...errorFields(error) });
+          // Clean up failed socket and continue to next port
+          this.discardSocket();
           lastError = error as Error;
-          // Continue to next port
-          continue;
         }
       }
 
       // All ports failed
-      const sdkError = lastError instanceof KrispSDKError
+      throw lastError instanceof KrispSDKError
         ? lastError
         : new KrispSDKError(
             ErrorCode.KRISP_NOT_REACHABLE,
             'Krisp Desktop is not reachable or API is disabled'
           );
-
-      this.isConnecting = false;
-      this.onConnectionChange({
-        connected: false,
-        connecting: false,
-        error: {
-          code: sdkError.code,
-          message: sdkError.message,
-        },
-      });
-
-      throw sdkError;
     } catch (error) {
-      this.isConnecting = false;
       const sdkError =
         error instanceof KrispSDKError
           ? error
           : new KrispSDKError(ErrorCode.UNKNOWN_ERROR, `Connection failed: ${error}`);
 
-      this.onConnectionChange({
-        connected: false,
-        connecting: false,
-        error: {
-          code: sdkError.code,
-          message: sdkError.message,
-        },
-      });
+      if (generation === this.generation) {
+        this.transition('failed', {
+          reason: 'connect_failed',
+          error: {
+            code: sdkError.code,
+            message: sdkError.message,
+          },
+        });
+      }
 
       throw sdkError;
     }
   }
 
+  private ensureGeneration(generation: number): void {
+    if (generation !== this.generation) {
+      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Disconnected before the connection was established');
+    }
+  }
+
   public disconnect(): void {
     this.clearConnectionTimeout();
+    this.clearReconnectTimer();
+    this.generation++;
+    this.migratedFromPort = undefined;
+    this.reconnectAttempt = 0;
+    const abortConnect = this.abortConnect;
+    this.abortConnect = null;
+    abortConnect?.(
+      new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Disconnected before the connection was established')
+    );
 
     if (this.socket) {
-      this.socket.disconnect();
+      this.socket.close();
       this.socket = null;
     }
 
     this.currentPort = undefined;
-    this.isConnecting = false;
 
-    this.onConnectionChange({
-      connected: false,
-      connecting: false,
-    });
+    if (this.stateMachine.getState() !== 'closed') {
+      this.transition('closed', { reason: 'disconnect' });
+    }
+    this.settleReconnectWaiters();
   }
 
   public getStatus(): ConnectionStatus {
+    const state = this.stateMachine.getState();
+    const lastTransition = this.stateMachine.getLastTransition();
     return {
-      connected: this.socket?.connected ?? false,
-      connecting: this.isConnecting,
+      state,
+      connected: state === 'connected' && (this.socket?.connected ?? false),
+      connecting: isConnectingState(state),
       port: this.currentPort,
+      ...this.statusExtras,
+      error: lastTransition?.error,
     };
   }
 
+  public getState(): ConnectionLifecycleState {
+    return this.stateMachine.getState();
+  }
+
+  /**
+   * Probe every candidate port in parallel and report which ones answered
+   */
+  public async discover(): Promise<PortProbeResult[]> {
+    return Promise.all(this.ports.map((port) => this.probePort(port)));
+  }
+
+  public getHost(): string {
+    return this.host;
+  }
+
+  public getPorts(): number[] {
+    return [...this.ports];
+  }
+
   public isConnected(): boolean {
     return this.socket?.connected ?? false;
   }
@@ -155,7 +296,22 @@ export class ConnectionManager {
     if (!this.socket?.connected) {
       throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
     }
-    this.socket.emit(event, data, callback);
+    const capture = this.options.capture;
+    if (!capture) {
+      this.socket.emit(event, data, callback);
+      return;
+    }
+
+    capture.record({ direction: 'out', type: 'event', event, data });
+    this.socket.emit(
+      event,
+      data,
+      callback &&
+        ((response: any) => {
+          capture.record({ direction: 'in', type: 'ack', event, data: response });
+          callback(response);
+        })
+    );
   }
 
   public on(event: string, handler: (...args: any[]) => void): void {
@@ -170,118 +326,77 @@ export class ConnectionManager {
     }
   }
 
-  private async connectToPort(port: number): Promise<void> {
+  /**
+   * Connect to `port`, or with `discovered`, adopt the socket parallel
+   * discovery already connected there instead of opening another one
+   */
+  private async connectToPort(port: number, generation: number, discovered?: WireSocket): Promise<void> {
     return new Promise((resolve, reject) => {
-      const host = DEFAULT_HOST;
       const timeout = this.options.connectionTimeout || DEFAULT_CONNECTION_TIMEOUT;
 
-      const socketOptions: Partial<ManagerOptions & SocketOptions> = {
-        query: {
-          version: '1.0.0'
-        },
-        transports: ['websocket'],
-        timeout,
-        autoConnect: true,
-        reconnection: this.options.autoReconnect !== false,
-        reconnectionDelayMax: MAX_RECONNECT_DELAY,
-        reconnectionAttempts: this.options.maxReconnectAttempts ?? Infinity,
-      };
+      const socket = discovered ?? this.openSocket(`http://${this.host}:${port}`, this.socketOptions());
+      this.socket = socket;
 
-      this.socket = io(`http://${host}:${port}`, socketOptions);
+      let connectPromiseSettled = false;
+      this.abortConnect = (error) => {
+        if (!connectPromiseSettled) {
+          connectPromiseSettled = true;
+          reject(error);
+        }
+      };
 
       // Set up connection timeout
-      this.connectionTimeoutTimer = setTimeout(() => {
-        if (!this.socket?.connected) {
-          this.socket?.close();
-          reject(
-            new KrispSDKError(
-              ErrorCode.CONNECTION_TIMEOUT,
-              `Connection timeout after ${timeout}ms`
-            )
-          );
-        }
-      }, timeout);
+      if (!discovered) {
+        this.connectionTimeoutTimer = setTimeout(() => {
+          if (!this.socket?.connected) {
+            this.socket?.close();
+            reject(
+              new KrispSDKError(
+                ErrorCode.CONNECTION_TIMEOUT,
+                `Connection timeout after ${timeout}ms`
+              )
+            );
+          }
+        }, timeout);
+      }
 
       // Set up event handlers
-      let connectPromiseSettled = false;
-      
-      this.socket.on('connect', () => {
+      const onConnect = () => {
         this.clearConnectionTimeout();
-        console.log('ConnectionManager: connect');
+
+        if (generation !== this.generation) {
+          // disconnect() was called while this attempt was in flight
+          socket.close();
+          if (this.socket === socket) {
+            this.socket = null;
+          }
+          if (!connectPromiseSettled) {
+            connectPromiseSettled = true;
+            reject(new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Disconnected before the connection was established'));
+          }
+          return;
+        }
+
+        this.logger.info('connect', { port, attempt: this.reconnectAttempt || undefined });
+        this.options.capture?.record({ direction: 'in', type: 'connect', port });
         this.setupMessageHandlers();
-        this.isConnecting = false;
-        
-        // Update connection status
-        this.onConnectionChange({
-          connected: true,
-          connecting: false,
-          port,
-        });
-        
+        this.reconnectPolicy.reset?.();
+
+        const previousPort = this.migratedFromPort;
+        const attempt = this.reconnectAttempt || undefined;
+        this.migratedFromPort = undefined;
+        this.reconnectAttempt = 0;
+        this.transition('connected', { reason: 'connected', port, attempt }, { previousPort });
+        this.settleReconnectWaiters();
+
         // Resolve promise only once
         if (!connectPromiseSettled) {
           connectPromiseSettled = true;
           resolve();
         }
-      });
-
-      // Handle Socket.IO's automatic reconnection attempts
-      this.socket.io.on('reconnect_attempt', (attemptNumber) => {
-        console.log('ConnectionManager: reconnect_attempt:', attemptNumber);
-        this.isConnecting = true;
-        this.onConnectionChange({
-          connected: false,
-          connecting: true,
-          error: {
-            code: ErrorCode.CONNECTION_REFUSED,
-            message: `Reconnecting... (attempt ${attemptNumber})`,
-          },
-        });
-      });
-
-      this.socket.io.on('reconnect', (attemptNumber) => {
-        console.log('ConnectionManager: reconnect:', attemptNumber);
-        // Socket.IO handled the reconnection
-        // Note: The socket's 'connect' event will also fire, which will update the status
-        // We update here too to be responsive, but the socket's connect handler will also run
-        this.isConnecting = false;
-        // Only update if socket is actually connected
-        if (this.socket?.connected) {
-          this.onConnectionChange({
-            connected: true,
-            connecting: false,
-            port,
-          });
-        }
-      });
-
-      this.socket.io.on('reconnect_error', (error) => {
-        // Socket.IO will continue trying to reconnect
-        this.isConnecting = true;
-        this.onConnectionChange({
-          connected: false,
-          connecting: true,
-          error: {
-            code: ErrorCode.CONNECTION_REFUSED,
-            message: `Reconnection error: ${error.message}`,
-          },
-        });
-      });
+      };
 
-      this.socket.io.on('reconnect_failed', () => {
-        console.log('ConnectionManager: reconnect_failed');
-        this.isConnecting = false;
-        this.onConnectionChange({
-          connected: false,
-          connecting: false,
-          error: {
-            code: ErrorCode.CONNECTION_REFUSED,
-            message: 'Reconnection failed after all attempts',
-          },
-        });
-        // Socket.IO has exhausted its reconnection attempts
-        // If needed, user can manually call connect() again
-      });
+      this.socket.on('connect', onConnect);
 
       this.socket.on('connect_error', (error) => {
         this.clearConnectionTimeout();
@@ -302,78 +417,356 @@ export class ConnectionManager {
             );
           }
         }
-        // For reconnection attempts, Socket.IO will handle it automatically
       });
 
       this.socket.on('disconnect', (reason) => {
         this.clearConnectionTimeout();
+        this.options.capture?.record({
+          direction: reason === 'io client disconnect' ? 'out' : 'in',
+          type: 'disconnect',
+          port,
+          reason,
+        });
         
         if (reason === 'io server disconnect') {
           // Server disconnected us - don't auto-reconnect
-          this.isConnecting = false;
-          this.onConnectionChange({
-            connected: false,
-            connecting: false,
+          this.transition('failed', {
+            reason: 'server_disconnect',
+            port,
             error: {
               code: ErrorCode.CONNECTION_REFUSED,
               message: 'Server disconnected client',
             },
           });
+          this.settleReconnectWaiters();
         } else if (reason === 'io client disconnect') {
           // We disconnected intentionally, do nothing
-          this.isConnecting = false;
         } else {
-          console.log('ConnectionManager: Unexpected disconnect:', reason);
+          this.logger.warn('Unexpected disconnect', { port, reason });
           // Unexpected disconnect (e.g., network loss, sleep/wake)
-          // Socket.IO will handle reconnection automatically if enabled
-          // The reconnect_attempt and reconnect events will update the status
-          const socketWillReconnect = this.options.autoReconnect !== false && (this.socket?.active ?? false);
-          
-          this.onConnectionChange({
-            connected: false,
-            connecting: socketWillReconnect,
-            error: socketWillReconnect ? undefined : {
-              code: ErrorCode.CONNECTION_REFUSED,
-              message: `Disconnected: ${reason}`,
-            },
-          });
-          // Socket.IO handles reconnection automatically
+          this.handleConnectionLoss(port, reason);
         }
       });
+
+      if (discovered) {
+        if (discovered.connected) {
+          onConnect();
+        } else {
+          connectPromiseSettled = true;
+          reject(new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Connection closed right after discovery'));
+        }
+      }
     });
   }
 
-  private setupMessageHandlers(): void {
-    if (!this.socket) {
+  /**
+   * Give up on a connection that looks open but stopped answering, e.g. a
+   * half-open socket after sleep/wake, and reconnect as after a network loss
+   */
+  public dropConnection(reason: string): void {
+    const port = this.currentPort;
+    if (this.stateMachine.getState() !== 'connected' || port === undefined) {
       return;
     }
+    this.logger.warn('Dropping unresponsive connection', { port, reason });
+    this.discardSocket();
+    this.options.capture?.record({ direction: 'out', type: 'disconnect', port, reason: 'io client disconnect' });
+    this.handleConnectionLoss(port, reason);
+  }
 
-    // Handle all server messages
-    this.socket.on('device_state', (data: any) => {
-      this.onMessage('device_state', data);
-    });
+  private handleConnectionLoss(port: number, reason: string): void {
+    if (this.options.autoReconnect !== false) {
+      this.transition('reconnecting', { reason, port });
+      this.scheduleReconnect(port, 1);
+    } else {
+      this.transition('failed', {
+        reason,
+        port,
+        error: {
+          code: ErrorCode.CONNECTION_REFUSED,
+          message: `Disconnected: ${reason}`,
+        },
+      });
+    }
+  }
 
-    this.socket.on('nc_state', (data: any) => {
-      this.onMessage('nc_state', data);
-    });
+  private shouldRediscover(attempt: number): boolean {
+    const threshold = this.options.rediscoverAfterAttempts ?? DEFAULT_REDISCOVER_AFTER_ATTEMPTS;
+    return threshold > 0 && attempt > threshold;
+  }
+
+  /**
+   * Ask the reconnect policy when to make `attempt` and schedule it. Once
+   * `rediscoverAfterAttempts` attempts on `lastPort` failed, each attempt
+   * rescans all candidate ports instead.
+   */
+  private scheduleReconnect(lastPort: number, attempt: number, lastError?: string): void {
+    const generation = this.generation;
+    const maxAttempts = this.options.maxReconnectAttempts ?? Infinity;
+    const decision = attempt > maxAttempts
+      ? null
+      : this.reconnectPolicy.next({ attempt, lastError });
+
+    if (!decision) {
+      this.logger.error('reconnect_failed', { port: lastPort, attempt: attempt - 1 });
+      this.reconnectAttempt = 0;
+      this.transition('failed', {
+        reason: 'reconnect_exhausted',
+        attempt: attempt - 1,
+        port: lastPort,
+        error: {
+          code: ErrorCode.CONNECTION_REFUSED,
+          message: 'Reconnection failed after all attempts',
+        },
+      });
+      this.settleReconnectWaiters();
+      // If needed, user can manually call connect() again
+      return;
+    }
+
+    const reconnect: ReconnectSchedule = {
+      attempt,
+      delay: decision.delay,
+      willAttempt: decision.attempt !== false,
+      policy: this.reconnectPolicy.name,
+      reason: decision.reason,
+    };
+    this.reconnectAttempt = attempt;
+    this.transition(
+      'backoff',
+      {
+        reason: decision.reason ?? 'retry_scheduled',
+        attempt,
+        port: lastPort,
+        error: lastError ? {
+          code: ErrorCode.CONNECTION_REFUSED,
+          message: `Reconnection error: ${lastError}`,
+        } : undefined,
+      },
+      { reconnect }
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (generation !== this.generation) {
+        return;
+      }
+      if (reconnect.willAttempt) {
+        this.attemptReconnect(lastPort, attempt, generation);
+      } else {
+        this.scheduleReconnect(lastPort, attempt, lastError);
+      }
+    }, decision.delay);
+  }
+
+  private async attemptReconnect(lastPort: number, attempt: number, generation: number): Promise<void> {
+    this.logger.info('reconnect_attempt', { port: lastPort, attempt, rediscover: this.shouldRediscover(attempt) });
+    const rediscover = this.shouldRediscover(attempt);
+
+    // Drop the closed socket from the lost connection
+    this.discardSocket();
+
+    try {
+      let port = lastPort;
+      let discovered: WireSocket | undefined;
+      if (rediscover) {
+        this.transition('discovering', { reason: 'rediscover', attempt, port: lastPort });
+        const discovery = await this.findFirstResponsivePort(generation);
+        port = discovery.port;
+        discovered = discovery.socket;
+      }
+
+      this.currentPort = port;
+      this.migratedFromPort = port !== lastPort ? lastPort : undefined;
+      this.transition('reconnecting', { reason: 'reconnect_attempt', attempt, port });
+      await this.connectToPort(port, generation, discovered);
+      if (port !== lastPort) {
+        this.logger.info('Krisp port moved', { previousPort: lastPort, port });
+      }
+    } catch (error) {
+      if (generation !== this.generation) {
+        return;
+      }
+      this.discardSocket();
+      this.migratedFromPort = undefined;
+      this.scheduleReconnect(lastPort, attempt + 1, (error as Error).message);
+    }
+  }
+
+  private transition(
+    to: ConnectionLifecycleState,
+    details: TransitionDetails,
+    extras: Pick<ConnectionStatus, 'previousPort' | 'reconnect'> = {}
+  ): void {
+    this.statusExtras = extras;
+    this.stateMachine.transition(to, details);
+  }
+
+  private handleTransition(transition: ConnectionTransition): void {
+    this.onConnectionChange(
+      {
+        state: transition.to,
+        connected: transition.to === 'connected',
+        connecting: isConnectingState(transition.to),
+        port: transition.port,
+        ...this.statusExtras,
+        error: transition.error,
+      },
+      transition
+    );
+  }
 
-    this.socket.on('ac_state', (data: any) => {
-      this.onMessage('ac_state', data);
+  /**
+   * Settle connect() calls made while auto-reconnecting
+   */
+  private settleReconnectWaiters(): void {
+    const waiters = this.reconnectWaiters;
+    this.reconnectWaiters = [];
+    const state = this.stateMachine.getState();
+    const lastError = this.stateMachine.getLastTransition()?.error;
+
+    waiters.forEach((waiter) => {
+      if (state === 'connected') {
+        waiter.resolve();
+      } else {
+        waiter.reject(
+          new KrispSDKError(
+            ErrorCode.CONNECTION_REFUSED,
+            lastError?.message ?? 'Connection closed'
+          )
+        );
+      }
     });
+  }
+
+  private discardSocket(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Resolve with the first port completing a handshake and its still open
+   * socket; rejects when no candidate answers or disconnect() was called
+   */
+  private async findFirstResponsivePort(generation: number): Promise<{ port: number; socket: WireSocket }> {
+    const discovery = await new Promise<{ port: number; socket: WireSocket }>((resolve, reject) => {
+      let remaining = this.ports.length;
+      let found = false;
+
+      if (remaining === 0) {
+        reject(new KrispSDKError(ErrorCode.KRISP_NOT_REACHABLE, 'No candidate ports configured'));
+        return;
+      }
 
-    this.socket.on('in_call_state', (data: any) => {
-      this.onMessage('in_call_state', data);
+      const keep = (port: number, socket: WireSocket) => {
+        if (found) {
+          return false;
+        }
+        found = true;
+        resolve({ port, socket });
+        return true;
+      };
+
+      this.ports.forEach((port) => {
+        this.probePort(port, (socket) => keep(port, socket)).then(() => {
+          remaining--;
+          if (!found && remaining === 0) {
+            reject(
+              new KrispSDKError(
+                ErrorCode.KRISP_NOT_REACHABLE,
+                'Krisp Desktop is not reachable or API is disabled'
+              )
+            );
+          }
+        });
+      });
     });
 
-    this.socket.on('error', (data: any) => {
-      this.onMessage('error', data);
+    if (generation !== this.generation) {
+      discovery.socket.close();
+    }
+    this.ensureGeneration(generation);
+    return discovery;
+  }
+
+  /**
+   * Open a socket to check whether a port answers the handshake. It is closed
+   * afterwards unless it connected and `keep` takes it over.
+   */
+  private probePort(port: number, keep?: (socket: WireSocket) => boolean): Promise<PortProbeResult> {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const timeout = this.options.connectionTimeout || DEFAULT_CONNECTION_TIMEOUT;
+      const probe = this.openSocket(`http://${this.host}:${port}`, this.socketOptions());
+
+      let settled = false;
+      const finish = (error?: string) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        probe.removeAllListeners();
+        if (error || !keep?.(probe)) {
+          probe.close();
+        }
+        resolve({
+          port,
+          reachable: !error,
+          latency: Date.now() - startedAt,
+          error,
+        });
+      };
+
+      const timer = setTimeout(() => finish(`Timeout after ${timeout}ms`), timeout);
+      this.logger.trace('Probing port', { port });
+      probe.on('connect', () => finish());
+      probe.on('connect_error', (error) => finish(error.message));
     });
+  }
+
+  private setupMessageHandlers(): void {
+    if (!this.socket) {
+      return;
+    }
 
-    this.socket.on('pong', (data: any) => {
-      this.onMessage('pong', data);
+    // Forward every server message; StateManager decides what it understands,
+    // so topics registered at runtime need no handler here
+    this.socket.onAny((event: string, data: any) => {
+      this.options.capture?.record({ direction: 'in', type: 'event', event, data });
+      this.onMessage(event, data);
     });
   }
 
+  private socketOptions(): Partial<ManagerOptions & SocketOptions> {
+    return {
+      query: {
+        version: PROTOCOL_VERSION
+      },
+      transports: ['websocket'],
+      timeout: this.options.connectionTimeout || DEFAULT_CONNECTION_TIMEOUT,
+      autoConnect: true,
+      // Reconnection is driven by the reconnect policy, see scheduleReconnect()
+      reconnection: false,
+      // Each connection attempt gets its own manager so stale listeners never carry over
+      forceNew: true,
+    };
+  }
+
+  private openSocket(url: string, options: Partial<ManagerOptions & SocketOptions>): WireSocket {
+    return (this.options.transport ?? io)(url, options);
+  }
+
   private clearConnectionTimeout(): void {
     if (this.connectionTimeoutTimer) {
       clearTimeout(this.connectionTimeoutTimer);
@@ -382,4 +775,17 @@ export class ConnectionManager {
   }
 }
 
+function readEnv(name: string): string | undefined {
+  return typeof process !== 'undefined' ? process.env?.[name] : undefined;
+}
 
+function parsePorts(value: string | undefined): number[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const ports = value
+    .split(',')
+    .map((port) => parseInt(port.trim(), 10))
+    .filter((port) => Number.isInteger(port) && port > 0 && port < 65536);
+  return ports.length > 0 ? ports : undefined;
+}
@@ -0,0 +1,112 @@
+import { Logger, noopLogger } from './logger';
+
+/**
+ * Connection lifecycle:
+ *
+ *   idle ──connect()──▶ discovering ──▶ connecting ──▶ connected
+ *                            │               │             │ connection lost
+ *                            └──────┬────────┘             ▼
+ *                                 failed ◀── backoff ◀─▶ reconnecting
+ *
+ * `closed` is reachable from every state through `disconnect()`, and
+ * `connect()` restarts from `failed` or `closed`.
+ */
+export type ConnectionLifecycleState =
+  | 'idle'
+  | 'discovering'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'backoff'
+  | 'failed'
+  | 'closed';
+
+export interface ConnectionTransition {
+  from: ConnectionLifecycleState;
+  to: ConnectionLifecycleState;
+  /**
+   * Machine-readable cause, e.g. `connect`, `connected`, `transport close`, `retry_scheduled`
+   */
+  reason: string;
+  /**
+   * Reconnect attempt number, when reconnecting
+   */
+  attempt?: number;
+  port?: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+  at: number;
+}
+
+export type TransitionDetails = Omit<ConnectionTransition, 'from' | 'to' | 'at'>;
+
+const ALLOWED_TRANSITIONS: Record<ConnectionLifecycleState, ConnectionLifecycleState[]> = {
+  idle: ['discovering', 'connecting', 'closed'],
+  discovering: ['connecting', 'reconnecting', 'backoff', 'failed', 'closed'],
+  connecting: ['connecting', 'connected', 'failed', 'closed'],
+  connected: ['reconnecting', 'failed', 'closed'],
+  reconnecting: ['backoff', 'discovering', 'connected', 'failed', 'closed'],
+  backoff: ['backoff', 'reconnecting', 'discovering', 'failed', 'closed'],
+  failed: ['discovering', 'connecting', 'closed'],
+  closed: ['discovering', 'connecting'],
+};
+
+const ACTIVE_STATES: ConnectionLifecycleState[] = ['discovering', 'connecting', 'reconnecting', 'backoff'];
+
+export function isConnectingState(state: ConnectionLifecycleState): boolean {
+  return ACTIVE_STATES.includes(state);
+}
+
+/**
+ * Tracks the connection lifecycle and reports every transition
+ */
+export class ConnectionStateMachine {
+  private state: ConnectionLifecycleState = 'idle';
+  private lastTransition: ConnectionTransition | null = null;
+
+  constructor(
+    private onTransition: (transition: ConnectionTransition) => void,
+    private logger: Logger = noopLogger
+  ) {}
+
+  public getState(): ConnectionLifecycleState {
+    return this.state;
+  }
+
+  public getLastTransition(): ConnectionTransition | null {
+    return this.lastTransition;
+  }
+
+  public canTransition(to: ConnectionLifecycleState): boolean {
+    return ALLOWED_TRANSITIONS[this.state].includes(to);
+  }
+
+  /**
+   * Move to `to`; invalid transitions are ignored and return false
+   */
+  public transition(to: ConnectionLifecycleState, details: TransitionDetails): boolean {
+    if (!this.canTransition(to)) {
+      this.logger.warn('Ignoring invalid transition', { from: this.state, to, reason: details.reason });
+      return false;
+    }
+
+    const transition: ConnectionTransition = {
+      from: this.state,
+      to,
+      ...details,
+      at: Date.now(),
+    };
+    this.logger.debug(`${transition.from} -> ${to}`, {
+      reason: details.reason,
+      attempt: details.attempt,
+      port: details.port,
+      code: details.error?.code,
+    });
+    this.state = to;
+    this.lastTransition = transition;
+    this.onTransition(transition);
+    return true;
+  }
+}
@@ -0,0 +1,102 @@
+import { AudioDeviceType, DeviceInfo, DeviceState } from './types';
+import { SDKEvent, DeviceTransitionEvent } from './events';
+
+/**
+ * Semantic events derived from `DeviceInfo` transitions
+ */
+export type DeviceEvent =
+  | SDKEvent.MIC_MUTED
+  | SDKEvent.MIC_UNMUTED
+  | SDKEvent.SPEAKER_MUTED
+  | SDKEvent.SPEAKER_UNMUTED
+  | SDKEvent.PHYSICAL_DEVICE_SWITCHED
+  | SDKEvent.DEFAULT_COMMUNICATION_DEVICE_CHANGED
+  | SDKEvent.DEVICE_AVAILABLE
+  | SDKEvent.DEVICE_UNAVAILABLE
+  | SDKEvent.DEVICE_ENABLED
+  | SDKEvent.DEVICE_DISABLED
+  | SDKEvent.HEADSET_CONNECTED
+  | SDKEvent.HEADSET_DISCONNECTED;
+
+export interface DerivedDeviceEvent {
+  event: DeviceEvent;
+  payload: DeviceTransitionEvent;
+}
+
+const MUTE_EVENTS: { [D in AudioDeviceType]: [DeviceEvent, DeviceEvent] } = {
+  [AudioDeviceType.microphone]: [SDKEvent.MIC_MUTED, SDKEvent.MIC_UNMUTED],
+  [AudioDeviceType.speaker]: [SDKEvent.SPEAKER_MUTED, SDKEvent.SPEAKER_UNMUTED],
+};
+
+/**
+ * Event for a boolean `DeviceInfo` flag flipping; nothing when either side is
+ * unknown, e.g. no device or a server that does not report the flag
+ */
+function flagEvent(
+  previous: DeviceInfo | null,
+  current: DeviceInfo | null,
+  flag: keyof DeviceInfo,
+  whenTrue: DeviceEvent,
+  whenFalse: DeviceEvent
+): DeviceEvent | null {
+  const before = previous?.[flag];
+  const after = current?.[flag];
+  if (typeof before !== 'boolean' || typeof after !== 'boolean' || before === after) {
+    return null;
+  }
+  return after ? whenTrue : whenFalse;
+}
+
+/**
+ * Id of the device if `predicate` holds for it
+ */
+function idIf(device: DeviceInfo | null, predicate: (device: DeviceInfo) => boolean | undefined): string | null {
+  return device && predicate(device) ? device.id : null;
+}
+
+function directionEvents(
+  direction: AudioDeviceType,
+  previous: DeviceInfo | null,
+  current: DeviceInfo | null
+): DeviceEvent[] {
+  const events: Array<DeviceEvent | null> = [];
+
+  if ((previous?.id ?? null) !== (current?.id ?? null)) {
+    events.push(SDKEvent.PHYSICAL_DEVICE_SWITCHED);
+  }
+  const [muted, unmuted] = MUTE_EVENTS[direction];
+  events.push(flagEvent(previous, current, 'isMuted', muted, unmuted));
+  events.push(flagEvent(previous, current, 'isAvailable', SDKEvent.DEVICE_AVAILABLE, SDKEvent.DEVICE_UNAVAILABLE));
+  events.push(flagEvent(previous, current, 'isDisabled', SDKEvent.DEVICE_DISABLED, SDKEvent.DEVICE_ENABLED));
+
+  const isDefault = (device: DeviceInfo) => device.isDefaultCommunication;
+  if (idIf(previous, isDefault) !== idIf(current, isDefault)) {
+    events.push(SDKEvent.DEFAULT_COMMUNICATION_DEVICE_CHANGED);
+  }
+
+  // Switching from one headset to another reports both
+  const isHeadset = (device: DeviceInfo) => device.isHIDHeadset;
+  const previousHeadset = idIf(previous, isHeadset);
+  const currentHeadset = idIf(current, isHeadset);
+  if (previousHeadset !== currentHeadset) {
+    events.push(previousHeadset !== null ? SDKEvent.HEADSET_DISCONNECTED : null);
+    events.push(currentHeadset !== null ? SDKEvent.HEADSET_CONNECTED : null);
+  }
+
+  return events.filter((event): event is DeviceEvent => event !== null);
+}
+
+/**
+ * Semantic events for every direction whose physical device changed between
+ * two device states, in microphone-then-speaker order
+ */
+export function deriveDeviceEvents(previous: DeviceState, current: DeviceState): DerivedDeviceEvent[] {
+  return [AudioDeviceType.microphone, AudioDeviceType.speaker].flatMap((direction) => {
+    const payload: DeviceTransitionEvent = {
+      direction,
+      previous: previous[direction].physicalDeviceInfo,
+      current: current[direction].physicalDeviceInfo,
+    };
+    return directionEvents(direction, payload.previous, payload.current).map((event) => ({ event, payload }));
+  });
+}
@@ -1,3 +1,5 @@
+
+
 /**
  * Error codes for connection failures
  */
@@ -6,6 +8,10 @@ export enum ErrorCode {
   CONNECTION_REFUSED = 'CONNECTION_REFUSED',
   CONNECTION_TIMEOUT = 'CONNECTION_TIMEOUT',
   INVALID_MESSAGE = 'INVALID_MESSAGE',
+  REQUEST_ABORTED = 'REQUEST_ABORTED',
+  BUFFER_OVERFLOW = 'BUFFER_OVERFLOW',
+  WAIT_TIMEOUT = 'WAIT_TIMEOUT',
+  UNSUPPORTED_OPERATION = 'UNSUPPORTED_OPERATION',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
@@ -21,4 +27,56 @@ export class KrispSDKError extends Error {
   }
 }
 
+/**
+ * Why a request to the server did not succeed
+ */
+export type RequestFailureReason =
+  | 'not_connected'
+  | 'timeout'
+  | 'aborted'
+  | 'rejected'
+  | 'disconnected'
+  | 'invalid_response'
+  | 'unsupported';
+
+/**
+ * Error raised by a single request, naming the request and the failure reason
+ */
+export class KrispRequestError extends KrispSDKError {
+  constructor(
+    code: ErrorCode,
+    public request: string,
+    public reason: RequestFailureReason,
+    message: string,
+    originalError?: Error,
+    public response?: any
+  ) {
+    super(code, message, originalError);
+    this.name = 'KrispRequestError';
+    Object.setPrototypeOf(this, KrispRequestError.prototype);
+  }
+}
 
+/**
+ * Server message that does not match its schema (`INVALID_MESSAGE`)
+ */
+export class KrispValidationError extends KrispSDKError {
+  constructor(
+    public messageType: string,
+    /**
+     * Location of the offending value, e.g. `nc_state[0].enabled`
+     */
+    public path: string,
+    public expected: string,
+    public received: string,
+    /**
+     * Truncated JSON of the payload with all string values redacted
+     */
+    public excerpt: string,
+    message: string
+  ) {
+    super(ErrorCode.INVALID_MESSAGE, message);
+    this.name = 'KrispValidationError';
+    Object.setPrototypeOf(this, KrispValidationError.prototype);
+  }
+}
@@ -0,0 +1,93 @@
+import { SDKEvent, SDKEventMap, EventHandler, AnyEventHandler, Unsubscribe, StateChangeEvent } from './events';
+import { Logger, noopLogger, errorFields } from './logger';
+import { StateChangeEventName } from './topic-registry';
+
+interface Registration {
+  once: boolean;
+}
+
+/**
+ * Single registry and dispatcher for SDK events
+ */
+export class SDKEventEmitter {
+  private handlers: Map<SDKEvent, Map<EventHandler, Registration>> = new Map();
+  private anyHandlers: Set<AnyEventHandler> = new Set();
+
+  constructor(private logger: Logger = noopLogger) {
+    // Initialize event handler maps
+    Object.values(SDKEvent).forEach((event) => {
+      this.handlers.set(event, new Map());
+    });
+  }
+
+  public on<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe {
+    this.handlers.get(event)?.set(handler, { once: false });
+    return () => this.off(event, handler);
+  }
+
+  public once<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe {
+    this.handlers.get(event)?.set(handler, { once: true });
+    return () => this.off(event, handler);
+  }
+
+  public onAny(handler: AnyEventHandler): Unsubscribe {
+    this.anyHandlers.add(handler);
+    return () => this.offAny(handler);
+  }
+
+  public off<E extends SDKEvent>(event: E, handler?: EventHandler<SDKEventMap[E]>): void {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      if (handler) {
+        handlers.delete(handler);
+      } else {
+        handlers.clear();
+      }
+    }
+  }
+
+  public offAny(handler?: AnyEventHandler): void {
+    if (handler) {
+      this.anyHandlers.delete(handler);
+    } else {
+      this.anyHandlers.clear();
+    }
+  }
+
+  public emit<E extends SDKEvent>(event: E, data: SDKEventMap[E]): void {
+    this.dispatch(event, data);
+  }
+
+  /**
+   * Emit the dedicated change event of a topic, whose payload type follows
+   * from the topic definition rather than from the event
+   */
+  public emitStateChange<T>(event: StateChangeEventName<T>, change: StateChangeEvent<T>): void;
+  public emitStateChange(event: SDKEvent, change: SDKEventMap[SDKEvent]): void {
+    this.dispatch(event, change);
+  }
+
+  private dispatch<E extends SDKEvent>(event: E, data: SDKEventMap[E]): void {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      Array.from(handlers).forEach(([handler, registration]) => {
+        if (registration.once) {
+          handlers.delete(handler);
+        }
+        try {
+          handler(data);
+        } catch (error) {
+          this.logger.error('Error in event handler', { event, ...errorFields(error) });
+        }
+      });
+    }
+
+    this.anyHandlers.forEach((handler) => {
+      try {
+        handler(event, data);
+      } catch (error) {
+        this.logger.error('Error in event handler', { event, ...errorFields(error) });
+      }
+    });
+  }
+}
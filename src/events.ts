@@ -1,3 +1,10 @@
+import { AudioDeviceType, DeviceInfo, DeviceState, NcState, AcState, InCallState } from './types';
+import { ErrorCode } from './errors';
+import { ReconnectSchedule } from './reconnect-policy';
+import { ConnectionLifecycleState, ConnectionTransition } from './connection-state-machine';
+import { CallSession } from './call-session-tracker';
+import { HeartbeatEvent } from './heartbeat';
+
 /**
  * Event types emitted by the SDK
  */
@@ -6,19 +13,186 @@ export enum SDKEvent {
   NOISE_CANCELLATION_CHANGED = 'noiseCancellationChanged',
   ACCENT_CONVERSION_CHANGED = 'accentConversionChanged',
   IN_CALL_CHANGED = 'inCallChanged',
+  TOPIC_CHANGED = 'topicChanged',
+  STALE_UPDATE_DROPPED = 'staleUpdateDropped',
+  MIC_MUTED = 'micMuted',
+  MIC_UNMUTED = 'micUnmuted',
+  SPEAKER_MUTED = 'speakerMuted',
+  SPEAKER_UNMUTED = 'speakerUnmuted',
+  PHYSICAL_DEVICE_SWITCHED = 'physicalDeviceSwitched',
+  DEFAULT_COMMUNICATION_DEVICE_CHANGED = 'defaultCommunicationDeviceChanged',
+  DEVICE_AVAILABLE = 'deviceAvailable',
+  DEVICE_UNAVAILABLE = 'deviceUnavailable',
+  DEVICE_ENABLED = 'deviceEnabled',
+  DEVICE_DISABLED = 'deviceDisabled',
+  HEADSET_CONNECTED = 'headsetConnected',
+  HEADSET_DISCONNECTED = 'headsetDisconnected',
+  CALL_STARTED = 'callStarted',
+  CALL_ENDED = 'callEnded',
   CONNECTION_CHANGED = 'connectionChanged',
+  CONNECTION_TRANSITION = 'connectionTransition',
+  RECONNECT_SCHEDULED = 'reconnectScheduled',
+  HEARTBEAT = 'heartbeat',
   ERROR = 'error',
 }
 
 export interface ConnectionState {
+  /**
+   * Lifecycle state; `connected` and `connecting` are derived from it
+   */
+  state: ConnectionLifecycleState;
   connected: boolean;
   connecting: boolean;
+  /**
+   * Port of the active (or last attempted) connection
+   */
+  port?: number;
+  /**
+   * Set when the connection was re-established on a different port than before
+   */
+  previousPort?: number;
+  /**
+   * Set while waiting for the next reconnect attempt
+   */
+  reconnect?: ReconnectSchedule;
   error?: {
     code: string;
     message: string;
   };
 }
 
+/**
+ * One field that differs between two states of a topic
+ */
+export interface StateChange {
+  /**
+   * Dotted field path, e.g. `microphone.physicalDeviceInfo.isMuted` or `speaker.enabled`
+   */
+  path: string;
+  previous: unknown;
+  current: unknown;
+}
+
+/**
+ * Payload of the state change events
+ */
+export interface StateChangeEvent<T> {
+  /**
+   * State before this update; null for the first state received
+   */
+  previous: T | null;
+  current: T;
+  /**
+   * Fields that differ between `previous` and `current`
+   */
+  changes: StateChange[];
+}
+
+/**
+ * Payload of `TOPIC_CHANGED`, emitted for every registered topic including the built-ins
+ */
+export interface TopicChangedEvent<T = unknown> extends StateChangeEvent<T> {
+  topic: string;
+}
+
+/**
+ * Payload of `STALE_UPDATE_DROPPED`: a received state, or part of it, was older
+ * than the cached one, e.g. a late reply racing a subscription push
+ */
+export interface StaleUpdateEvent<T = unknown> {
+  topic: string;
+  received: T;
+  /**
+   * Cached state the update was ordered against
+   */
+  current: T;
+  /**
+   * Parts of `received` that were dropped, e.g. `microphone`; `''` when the
+   * whole update was
+   */
+  stale: string[];
+}
+
+/**
+ * Payload of the semantic device events such as `MIC_MUTED` or `HEADSET_CONNECTED`
+ */
+export interface DeviceTransitionEvent {
+  direction: AudioDeviceType;
+  /**
+   * Physical device before the update; null if there was none
+   */
+  previous: DeviceInfo | null;
+  /**
+   * Physical device after the update; null if there is none
+   */
+  current: DeviceInfo | null;
+}
+
+export interface SDKErrorEvent {
+  code: ErrorCode;
+  message: string;
+  originalError?: Error;
+  /**
+   * For `INVALID_MESSAGE`: the server message type that failed validation
+   */
+  messageType?: string;
+  /**
+   * For `INVALID_MESSAGE`: location of the offending value, e.g. `nc_state[0].enabled`
+   */
+  path?: string;
+  /**
+   * For `INVALID_MESSAGE`: the type the schema expects at `path`
+   */
+  expected?: string;
+  /**
+   * For `INVALID_MESSAGE`: the type received at `path`
+   */
+  received?: string;
+  /**
+   * For `INVALID_MESSAGE`: truncated JSON of the payload with string values redacted
+   */
+  excerpt?: string;
+}
+
+/**
+ * Payload type of each SDK event
+ */
+export interface SDKEventMap {
+  [SDKEvent.DEVICES_CHANGED]: StateChangeEvent<DeviceState>;
+  [SDKEvent.NOISE_CANCELLATION_CHANGED]: StateChangeEvent<NcState>;
+  [SDKEvent.ACCENT_CONVERSION_CHANGED]: StateChangeEvent<AcState>;
+  [SDKEvent.IN_CALL_CHANGED]: StateChangeEvent<InCallState>;
+  [SDKEvent.TOPIC_CHANGED]: TopicChangedEvent;
+  [SDKEvent.STALE_UPDATE_DROPPED]: StaleUpdateEvent;
+  [SDKEvent.MIC_MUTED]: DeviceTransitionEvent;
+  [SDKEvent.MIC_UNMUTED]: DeviceTransitionEvent;
+  [SDKEvent.SPEAKER_MUTED]: DeviceTransitionEvent;
+  [SDKEvent.SPEAKER_UNMUTED]: DeviceTransitionEvent;
+  [SDKEvent.PHYSICAL_DEVICE_SWITCHED]: DeviceTransitionEvent;
+  [SDKEvent.DEFAULT_COMMUNICATION_DEVICE_CHANGED]: DeviceTransitionEvent;
+  [SDKEvent.DEVICE_AVAILABLE]: DeviceTransitionEvent;
+  [SDKEvent.DEVICE_UNAVAILABLE]: DeviceTransitionEvent;
+  [SDKEvent.DEVICE_ENABLED]: DeviceTransitionEvent;
+  [SDKEvent.DEVICE_DISABLED]: DeviceTransitionEvent;
+  [SDKEvent.HEADSET_CONNECTED]: DeviceTransitionEvent;
+  [SDKEvent.HEADSET_DISCONNECTED]: DeviceTransitionEvent;
+  [SDKEvent.CALL_STARTED]: CallSession;
+  [SDKEvent.CALL_ENDED]: CallSession;
+  [SDKEvent.CONNECTION_CHANGED]: ConnectionState;
+  [SDKEvent.CONNECTION_TRANSITION]: ConnectionTransition;
+  [SDKEvent.RECONNECT_SCHEDULED]: ReconnectSchedule;
+  [SDKEvent.HEARTBEAT]: HeartbeatEvent;
+  [SDKEvent.ERROR]: SDKErrorEvent;
+}
+
 export type EventHandler<T = any> = (data: T) => void;
 
+/**
+ * Handler receiving every SDK event along with its name
+ */
+export type AnyEventHandler = <E extends SDKEvent>(event: E, data: SDKEventMap[E]) => void;
 
+/**
+ * Removes the handler it was returned for
+ */
+export type Unsubscribe = () => void;
@@ -2,7 +2,7 @@
  * Example usage of the Krisp Local Monitoring SDK
  */
 
-import { KrispLocalMonitoringSDK, SDKEvent, ErrorCode, AudioDeviceType } from './index';
+import { KrispLocalMonitoringSDK, SDKEvent, ErrorCode, AudioDeviceType, createConsoleLogger } from './index';
 
 async function main() {
   // Create SDK instance
@@ -15,28 +15,30 @@ async function main() {
     autoSubscribe: true,
     // Optional: topics to auto-subscribe (default: ['devices', 'nc', 'ac', 'in_call'])
     autoSubscribeTopics: ['devices', 'nc', 'ac', 'in_call'],
+    // Optional: diagnostic logging (default: none)
+    logger: createConsoleLogger({ level: 'info' }),
   });
 
   // Set up event handlers before connecting
-  sdk.on(SDKEvent.DEVICES_CHANGED, (deviceState) => {
-    console.log('Device state changed:');
+  sdk.on(SDKEvent.DEVICES_CHANGED, ({ current: deviceState, changes }) => {
+    console.log('Device state changed:', changes.map((change) => change.path).join(', '));
     console.log('  Microphone:', deviceState[AudioDeviceType.microphone].physicalDeviceInfo?.name || 'None');
     console.log('  Speaker:', deviceState[AudioDeviceType.speaker].physicalDeviceInfo?.name || 'None');
   });
 
-  sdk.on(SDKEvent.NOISE_CANCELLATION_CHANGED, (ncState) => {
+  sdk.on(SDKEvent.NOISE_CANCELLATION_CHANGED, ({ current: ncState }) => {
     console.log('Noise Cancellation state changed:');
     console.log('  Microphone NC:', ncState[AudioDeviceType.microphone].enabled);
     console.log('  Speaker NC:', ncState[AudioDeviceType.speaker].enabled);
   });
 
-  sdk.on(SDKEvent.ACCENT_CONVERSION_CHANGED, (acState) => {
+  sdk.on(SDKEvent.ACCENT_CONVERSION_CHANGED, ({ current: acState }) => {
     console.log('Accent Conversion state changed:');
     console.log('  Microphone AC:', acState[AudioDeviceType.microphone].enabled);
     console.log('  Speaker AC:', acState[AudioDeviceType.speaker].enabled);
   });
 
-  sdk.on(SDKEvent.IN_CALL_CHANGED, (inCallState) => {
+  sdk.on(SDKEvent.IN_CALL_CHANGED, ({ current: inCallState }) => {
     console.log('In-call state changed:');
     console.log('  In call:', inCallState.inCall);
   });
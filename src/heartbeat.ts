@@ -0,0 +1,172 @@
+import { SDKEvent } from './events';
+import { SDKEventEmitter } from './event-emitter';
+import { TimerScheduler, defaultScheduler } from './timers';
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+const DEFAULT_HEARTBEAT_TIMEOUT = 5000;
+const DEFAULT_MAX_MISSED = 3;
+const LATENCY_SAMPLES = 100;
+
+export interface HeartbeatOptions {
+  /**
+   * Time between the end of one heartbeat and the next ping, in ms (default: 15000)
+   */
+  interval?: number;
+  /**
+   * How long a ping may take before the heartbeat counts as missed, in ms
+   * (default: 5000, at most `interval`)
+   */
+  timeout?: number;
+  /**
+   * Consecutive missed heartbeats after which the connection is considered
+   * stale and re-established (default: 3)
+   */
+  maxMissed?: number;
+}
+
+export interface HeartbeatMonitorOptions extends HeartbeatOptions {
+  now?: () => number;
+  schedule?: TimerScheduler;
+}
+
+/**
+ * Round-trip latency of recent heartbeats, in ms; null before the first answered one
+ */
+export interface HeartbeatStats {
+  last: number | null;
+  min: number | null;
+  p50: number | null;
+  p95: number | null;
+  /**
+   * Answered heartbeats the figures are computed from (the latest 100)
+   */
+  samples: number;
+  /**
+   * Heartbeats missed in a row since the last answered one
+   */
+  missed: number;
+  /**
+   * When the last heartbeat was answered, in ms since the epoch
+   */
+  lastSeenAt: number | null;
+}
+
+/**
+ * Payload of `HEARTBEAT`, emitted after every heartbeat
+ */
+export interface HeartbeatEvent {
+  /**
+   * Round-trip time of this heartbeat; null if it was missed
+   */
+  latency: number | null;
+  stats: HeartbeatStats;
+}
+
+/**
+ * Nearest-rank percentile of ascending `sorted`
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Pings the server periodically while connected and records the round-trip
+ * latency. A socket left half-open, e.g. after sleep/wake, keeps reporting
+ * itself connected; after `maxMissed` unanswered pings `onStale` is called
+ * so the connection can be re-established.
+ */
+export class HeartbeatMonitor {
+  private latencies: number[] = [];
+  private missed = 0;
+  private lastSeenAt: number | null = null;
+  private cancelTimer: (() => void) | null = null;
+  // Bumped on every start()/stop() so a ping in flight from an earlier run is ignored
+  private generation = 0;
+
+  constructor(
+    private events: SDKEventEmitter,
+    private ping: (timeout: number) => Promise<void>,
+    private onStale: (stats: HeartbeatStats) => void,
+    private options: HeartbeatMonitorOptions = {}
+  ) {}
+
+  /**
+   * Start pinging, e.g. once connected; restarts the missed count
+   */
+  public start(): void {
+    this.stop();
+    this.missed = 0;
+    this.scheduleBeat(this.generation);
+  }
+
+  public stop(): void {
+    this.generation++;
+    this.cancelTimer?.();
+    this.cancelTimer = null;
+  }
+
+  public getStats(): HeartbeatStats {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    return {
+      last: this.latencies.length > 0 ? this.latencies[this.latencies.length - 1] : null,
+      min: sorted.length > 0 ? sorted[0] : null,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      samples: sorted.length,
+      missed: this.missed,
+      lastSeenAt: this.lastSeenAt,
+    };
+  }
+
+  private scheduleBeat(generation: number): void {
+    const schedule = this.options.schedule ?? defaultScheduler;
+    this.cancelTimer = schedule(() => {
+      this.beat(generation).catch(() => {});
+    }, this.options.interval ?? DEFAULT_HEARTBEAT_INTERVAL);
+  }
+
+  private async beat(generation: number): Promise<void> {
+    const interval = this.options.interval ?? DEFAULT_HEARTBEAT_INTERVAL;
+    const timeout = Math.min(this.options.timeout ?? DEFAULT_HEARTBEAT_TIMEOUT, interval);
+    const startedAt = this.now();
+
+    let latency: number | null = null;
+    try {
+      await this.ping(timeout);
+      latency = this.now() - startedAt;
+    } catch {
+      // Any failure counts as missed: the server did not answer in time
+    }
+    if (generation !== this.generation) {
+      return;
+    }
+
+    if (latency === null) {
+      this.missed++;
+    } else {
+      this.missed = 0;
+      this.lastSeenAt = this.now();
+      this.latencies.push(latency);
+      if (this.latencies.length > LATENCY_SAMPLES) {
+        this.latencies.shift();
+      }
+    }
+
+    const stats = this.getStats();
+    this.events.emit(SDKEvent.HEARTBEAT, { latency, stats });
+
+    if (this.missed >= (this.options.maxMissed ?? DEFAULT_MAX_MISSED)) {
+      this.stop();
+      this.onStale(stats);
+    } else {
+      this.scheduleBeat(generation);
+    }
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
@@ -1,12 +1,107 @@
-import { ConnectionManager, ConnectionOptions, ConnectionStatus } from './connection-manager';
+import { ConnectionManager, ConnectionOptions, ConnectionStatus, PortProbeResult } from './connection-manager';
+import { ConnectionTransition, isConnectingState } from './connection-state-machine';
 import { StateManager } from './state-manager';
-import { DeviceState, NcState, AcState, InCallState, SubscriptionTopic } from './types';
-import { SDKEvent, EventHandler, ConnectionState } from './events';
-import { ErrorCode, KrispSDKError } from './errors';
+import { RequestManager, RequestOptions } from './request-manager';
+import { DeviceState, NcState, AcState, InCallState } from './types';
+import { SDKEvent, SDKEventMap, EventHandler, AnyEventHandler, Unsubscribe, ConnectionState } from './events';
+import { SDKEventEmitter } from './event-emitter';
+import { StateSnapshot, StateSelector, WaitForOptions, waitForState } from './wait-for';
+import { StateStream, StreamTopic, StreamTopicMap, StreamOptions, createStreamSource } from './state-stream';
+import { ErrorCode, KrispSDKError, KrispRequestError, KrispValidationError } from './errors';
+import { ValidationMode } from './message-schema';
+import {
+  ServerInfo,
+  PROTOCOL_VERSION,
+  SERVER_INFO_REQUEST,
+  ALL_STATES_REQUEST,
+  legacyServerInfo,
+  parseServerInfo,
+  isCompatibleVersion,
+} from './server-info';
+import { TopicRegistry, TopicDefinition, TopicName, BuiltInTopicStates, BUILT_IN_TOPICS } from './topic-registry';
+import { Logger, noopLogger, withFields, errorFields } from './logger';
+import { CallSessionTracker, CallSession } from './call-session-tracker';
+import { TimelineOptions, TimeInterval } from './state-timeline';
+import { TopicFreshness } from './state-ordering';
+import { SnapshotStore, resolveSnapshotStore } from './snapshot-store';
+import { OfflineQueue, OfflineQueueOptions, QueuedCall } from './offline-queue';
+import { HeartbeatMonitor, HeartbeatOptions } from './heartbeat';
+
+const DEFAULT_HANDSHAKE_TIMEOUT = 1000;
+const MAX_ALL_STATES_ATTEMPTS = 3;
 
 export interface KrispSDKOptions extends ConnectionOptions {
+  requestTimeout?: number;
   autoSubscribe?: boolean;
-  autoSubscribeTopics?: SubscriptionTopic[];
+  /**
+   * Topics to subscribe to on connect (default: every registered topic)
+   */
+  autoSubscribeTopics?: TopicName[];
+  /**
+   * Additional topics to register alongside the built-in ones, see `registerTopic`
+   */
+  topics?: TopicDefinition<any>[];
+  /**
+   * How strictly server messages are validated (default: strict)
+   */
+  validation?: ValidationMode;
+  /**
+   * How long to wait for the capability handshake before assuming a server
+   * that predates it for good, in ms. Connecting does not wait for the
+   * handshake. (default: 1000)
+   */
+  handshakeTimeout?: number;
+  /**
+   * How long a call in progress survives a lost connection before its session
+   * is ended, in ms (default: 30000)
+   */
+  callGracePeriod?: number;
+  /**
+   * How much state history `getStateAt` and `getIntervals` can look back on
+   * (default: 1000 snapshots per topic)
+   */
+  timeline?: TimelineOptions;
+  /**
+   * Report a topic stale once no state was received for it for this long, in
+   * ms (default: only topics never received are stale)
+   */
+  staleAfter?: number;
+  /**
+   * Where the last known state is loaded from when the SDK is created and saved
+   * to on every change: a `SnapshotStore`, or the path of a JSON file kept by a
+   * `FileSnapshotStore` (Node.js only; default: not persisted)
+   */
+  snapshotStore?: SnapshotStore | string;
+  /**
+   * Hold `subscribe`, `unsubscribe`, state getters and `ping` made while
+   * connecting or reconnecting and run them once connected, instead of
+   * rejecting them with `CONNECTION_REFUSED` (default: off)
+   */
+  offlineQueue?: boolean | OfflineQueueOptions;
+  /**
+   * Ping the server periodically while connected, report the latency through
+   * `HEARTBEAT` and `getConnectionStatus()`, and reconnect once too many pings
+   * in a row went unanswered (default: off)
+   */
+  heartbeat?: boolean | HeartbeatOptions;
+}
+
+/**
+ * State of every topic taken at one point, as returned by `getAllStates`
+ */
+export interface AllStates {
+  devices: DeviceState | null;
+  nc: NcState | null;
+  ac: AcState | null;
+  inCall: InCallState | null;
+  /**
+   * State of every registered topic, including custom ones, by topic name
+   */
+  topics: { [topic: string]: unknown };
+  /**
+   * When the snapshot was complete, in ms since the epoch
+   */
+  capturedAt: number;
 }
 
 /**
@@ -15,16 +110,52 @@ export interface KrispSDKOptions extends ConnectionOptions {
 export interface IKrispLocalMonitoringSDK {
   connect(): Promise<void>;
   disconnect(): void;
-  getDevicesState(): Promise<DeviceState>;
-  getNoiseCancellationState(): Promise<NcState>;
-  getAccentConversionState(): Promise<AcState>;
-  getInCallState(): Promise<InCallState>;
-  subscribe(topics: SubscriptionTopic[]): Promise<void>;
-  unsubscribe(topics: SubscriptionTopic[]): Promise<void>;
+  getDevicesState(options?: RequestOptions): Promise<DeviceState>;
+  getNoiseCancellationState(options?: RequestOptions): Promise<NcState>;
+  getAccentConversionState(options?: RequestOptions): Promise<AcState>;
+  getInCallState(options?: RequestOptions): Promise<InCallState>;
+  getState<K extends keyof BuiltInTopicStates>(topic: K, options?: RequestOptions): Promise<BuiltInTopicStates[K]>;
+  getState<T = unknown>(topic: TopicName, options?: RequestOptions): Promise<T>;
+  getAllStates(options?: RequestOptions): Promise<AllStates>;
+  registerTopic<T>(definition: TopicDefinition<T>): void;
+  getStateAt(timestamp: number): { [topic: string]: unknown };
+  getStateAt<K extends keyof BuiltInTopicStates>(timestamp: number, topic: K): BuiltInTopicStates[K] | null;
+  getStateAt<T = unknown>(timestamp: number, topic: TopicName): T | null;
+  getIntervals<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  getIntervals<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  getDuration<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  getDuration<T = unknown>(topic: TopicName, predicate: (state: T) => boolean, from?: number, to?: number): number;
+  getFreshness(topic: TopicName): TopicFreshness;
+  getClockSkew(): number | null;
+  whenHydrated(): Promise<void>;
+  subscribe(topics: TopicName[], options?: RequestOptions): Promise<void>;
+  unsubscribe(topics: TopicName[], options?: RequestOptions): Promise<void>;
   getConnectionStatus(): ConnectionStatus;
-  on(event: SDKEvent, handler: EventHandler): void;
-  off(event: SDKEvent, handler?: EventHandler): void;
-  ping(): Promise<void>;
+  getServerInfo(): ServerInfo | null;
+  getCurrentCallSession(): CallSession | null;
+  discover(): Promise<PortProbeResult[]>;
+  on<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe;
+  once<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe;
+  onAny(handler: AnyEventHandler): Unsubscribe;
+  off<E extends SDKEvent>(event: E, handler?: EventHandler<SDKEventMap[E]>): void;
+  ping(options?: RequestOptions): Promise<void>;
+  stream<K extends StreamTopic>(topic: K, options?: StreamOptions): StateStream<StreamTopicMap[K]>;
+  waitFor(selector: StateSelector, options?: WaitForOptions): Promise<StateSnapshot>;
 }
 
 /**
@@ -33,21 +164,41 @@ export interface IKrispLocalMonitoringSDK {
 export class KrispLocalMonitoringSDK implements IKrispLocalMonitoringSDK {
   private connectionManager: ConnectionManager;
   private stateManager: StateManager;
+  private requestManager: RequestManager;
+  private callSessions: CallSessionTracker;
+  private offlineQueue: OfflineQueue | null;
+  private heartbeat: HeartbeatMonitor | null;
   private options: KrispSDKOptions;
-  private subscribedTopics: Set<SubscriptionTopic> = new Set();
-  private connectionChangeHandlers: Set<EventHandler<ConnectionState>> = new Set();
-  private eventHandlers: Map<SDKEvent, Set<EventHandler>> = new Map();
-  private wasConnected: boolean = false;
-  private isReconnecting: boolean = false;
+  private events: SDKEventEmitter;
+  private logger: Logger;
+  private topics: TopicRegistry = new TopicRegistry();
+  private subscribedTopics: Set<TopicName> = new Set();
+  private connectPromise: Promise<void> | null = null;
+  private serverInfo: ServerInfo | null = null;
+  // Ports whose server did not answer the handshake, so reconnects skip it until disconnect()
+  private legacyPorts: Set<number> = new Set();
+  // Bumped per connection so a late handshake answer is not applied to a newer one
+  private handshakeGeneration = 0;
 
   constructor(options: KrispSDKOptions = {}) {
     this.options = options;
-    this.stateManager = new StateManager();
-
-    // Initialize event handler maps
-    Object.values(SDKEvent).forEach((event) => {
-      this.eventHandlers.set(event, new Set());
+    this.logger = withFields(options.logger ?? noopLogger, { component: 'KrispLocalMonitoringSDK' });
+    this.events = new SDKEventEmitter(this.logger);
+    (options.topics ?? []).forEach((definition) => this.topics.register(definition));
+    this.stateManager = new StateManager(this.events, this.topics, {
+      validation: options.validation,
+      logger: this.logger,
+      timeline: options.timeline,
+      staleAfter: options.staleAfter,
+      snapshotStore: resolveSnapshotStore(options.snapshotStore),
+      isPushed: (topic) => this.subscribedTopics.has(topic),
     });
+    this.callSessions = new CallSessionTracker(this.events, this.stateManager, {
+      gracePeriod: options.callGracePeriod,
+    });
+    this.offlineQueue = options.offlineQueue
+      ? new OfflineQueue(options.offlineQueue === true ? {} : options.offlineQueue)
+      : null;
 
     // Set up connection manager with callbacks
     this.connectionManager = new ConnectionManager(
@@ -57,55 +208,65 @@ export class KrispLocalMonitoringSDK implements IKrispLocalMonitoringSDK {
           this.stateManager.handleMessage(event, data);
         } catch (error) {
           this.emitError(
-            new KrispSDKError(
-              ErrorCode.INVALID_MESSAGE,
-              `Failed to process message: ${error}`
-            )
+            error instanceof KrispSDKError
+              ? error
+              : new KrispSDKError(
+                  ErrorCode.INVALID_MESSAGE,
+                  `Failed to process message: ${error}`
+                )
           );
         }
       },
-      (status) => {
-        this.emitConnectionChange(status);
+      (status, transition) => {
+        this.emitConnectionChange(status, transition);
       }
     );
-
-    // Forward state manager events to SDK handlers (not back to state manager!)
-    this.stateManager.on(SDKEvent.DEVICES_CHANGED, (data) => {
-      this.emitToHandlers(SDKEvent.DEVICES_CHANGED, data);
-    });
-
-    this.stateManager.on(SDKEvent.NOISE_CANCELLATION_CHANGED, (data) => {
-      this.emitToHandlers(SDKEvent.NOISE_CANCELLATION_CHANGED, data);
-    });
-
-    this.stateManager.on(SDKEvent.ACCENT_CONVERSION_CHANGED, (data) => {
-      this.emitToHandlers(SDKEvent.ACCENT_CONVERSION_CHANGED, data);
-    });
-
-    this.stateManager.on(SDKEvent.IN_CALL_CHANGED, (data) => {
-      this.emitToHandlers(SDKEvent.IN_CALL_CHANGED, data);
-    });
-
-    this.stateManager.on(SDKEvent.ERROR, (data) => {
-      this.emitError(
-        new KrispSDKError(ErrorCode.UNKNOWN_ERROR, data.message || 'Server error', undefined)
-      );
-    });
+    this.requestManager = new RequestManager(
+      this.connectionManager,
+      options.requestTimeout,
+      (message, data) => this.stateManager.validate(message, data)
+    );
+    this.heartbeat = options.heartbeat
+      ? new HeartbeatMonitor(
+          this.events,
+          (timeout) => this.sendPing({ timeout }),
+          (stats) => {
+            this.logger.warn('Heartbeat missed, reconnecting', { missed: stats.missed, lastSeenAt: stats.lastSeenAt });
+            this.connectionManager.dropConnection('heartbeat_timeout');
+          },
+          options.heartbeat === true ? {} : options.heartbeat
+        )
+      : null;
   }
 
   /**
-   * Connect to the Krisp Desktop WebSocket server
+   * Connect to the Krisp Desktop WebSocket server. Calls made while a
+   * connection is in progress share its outcome.
    */
-  public async connect(): Promise<void> {
-    this.isReconnecting = false; // Reset reconnection flag for manual connect
+  public connect(): Promise<void> {
+    if (!this.connectPromise) {
+      const connectPromise = this.establish().finally(() => {
+        if (this.connectPromise === connectPromise) {
+          this.connectPromise = null;
+        }
+      });
+      this.connectPromise = connectPromise;
+    }
+    return this.connectPromise;
+  }
+
+  private async establish(): Promise<void> {
     await this.connectionManager.connect();
+    this.negotiate();
+    this.offlineQueue?.flush();
+    this.startHeartbeat();
 
     // Fetch initial states
     await this.fetchInitialStates();
 
     // Auto-subscribe if enabled
     if (this.options.autoSubscribe !== false) {
-      const topics = this.options.autoSubscribeTopics || ['devices', 'nc', 'ac', 'in_call'];
+      const topics = this.options.autoSubscribeTopics || this.topics.topics();
       await this.subscribe(topics);
     }
   }
@@ -114,390 +275,649 @@ export class KrispLocalMonitoringSDK implements IKrispLocalMonitoringSDK {
    * Disconnect from the server
    */
   public disconnect(): void {
+    this.requestManager.cancelAll('disconnected');
     this.connectionManager.disconnect();
     this.subscribedTopics.clear();
-    this.wasConnected = false;
-    this.isReconnecting = false;
+    this.serverInfo = null;
+    this.legacyPorts.clear();
+    this.handshakeGeneration++;
+    this.requestManager.setSupportedRequests(null);
   }
 
   /**
-   * Get current device state
+   * Fetch the current state of a registered topic
    */
-  public async getDevicesState(): Promise<DeviceState> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
+  public getState<K extends keyof BuiltInTopicStates>(topic: K, options?: RequestOptions): Promise<BuiltInTopicStates[K]>;
+  public getState<T = unknown>(topic: TopicName, options?: RequestOptions): Promise<T>;
+  public async getState(topic: TopicName, options?: RequestOptions): Promise<unknown> {
+    const definition = this.topics.get(topic);
+    if (!definition) {
+      throw new KrispSDKError(ErrorCode.UNSUPPORTED_OPERATION, `Topic '${topic}' is not registered`);
     }
-
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        cleanup();
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Request timeout'));
-      }, 5000);
-
-      const handler = (state: DeviceState) => {
-        cleanup();
-        resolve(state);
-      };
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        this.connectionManager.off('device_state', handler);
-      };
-
-      // Listen for the state update
-      this.connectionManager.on('device_state', handler);
-
-      // Request the state
-      this.connectionManager.emit('get_device_state', {}, (response: any) => {
-        if (!response?.success) {
-          cleanup();
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Failed to get device state'));
-        }
-        // If we already have state, resolve immediately
-        const currentState = this.stateManager.getDeviceState();
-        if (currentState) {
-          cleanup();
-          resolve(currentState);
-        }
-      });
-    });
+    return this.whenConnected(
+      {
+        key: `getState:${topic}`,
+        request: definition.request,
+        run: (_topics, runOptions) =>
+          this.requestManager.fetchState(
+            definition.request,
+            definition.message,
+            () => this.stateManager.getState(topic),
+            runOptions
+          ),
+      },
+      options
+    );
   }
 
   /**
-   * Get current noise cancellation state
+   * Fetch every topic the server supports as one consistent snapshot. Uses the
+   * batched `get_all_states` request when the server advertises it; otherwise
+   * the topics are fetched side by side, starting over when one of them was
+   * pushed while the others were in flight. Topics that fail to fetch are left
+   * out; it only rejects when none could be fetched.
    */
-  public async getNoiseCancellationState(): Promise<NcState> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
+  public getAllStates(options?: RequestOptions): Promise<AllStates> {
+    return this.whenConnected(
+      { key: 'getAllStates', request: ALL_STATES_REQUEST, run: (_topics, runOptions) => this.fetchAllStates(runOptions) },
+      options
+    );
+  }
+
+  private async fetchAllStates(
+    options?: RequestOptions,
+    // Topics the server does not advertise would only wait for the request timeout
+    topics: TopicName[] = this.topics.topics().filter((topic) => this.isAdvertised(topic))
+  ): Promise<AllStates> {
+    if (this.serverInfo?.negotiated && this.serverInfo.requests.includes(ALL_STATES_REQUEST)) {
+      await this.fetchAllStatesBatched(topics, options);
+    } else {
+      await this.fetchAllStatesCoordinated(topics, options);
     }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        cleanup();
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Request timeout'));
-      }, 5000);
-
-      const handler = (state: NcState) => {
-        cleanup();
-        resolve(state);
-      };
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        this.connectionManager.off('nc_state', handler);
-      };
-
-      // Listen for the state update
-      this.connectionManager.on('nc_state', handler);
-
-      // Request the state
-      this.connectionManager.emit('get_nc_state', {}, (response: any) => {
-        if (!response?.success) {
-          cleanup();
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Failed to get NC state'));
-        }
-        // If we already have state, resolve immediately
-        const currentState = this.stateManager.getNcState();
-        if (currentState) {
-          cleanup();
-          resolve(currentState);
-        }
-      });
-    });
+    const { devices, nc, ac, inCall, topics: states } = this.getStateSnapshot();
+    return { devices, nc, ac, inCall, topics: states, capturedAt: Date.now() };
   }
 
   /**
-   * Get current accent conversion state
+   * Teach the SDK a topic it does not know yet: how to request, validate and
+   * compare its state. Registered topics work with `subscribe`, `getState`,
+   * `TOPIC_CHANGED` and re-subscription after reconnecting.
    */
-  public async getAccentConversionState(): Promise<AcState> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
-    }
+  public registerTopic<T>(definition: TopicDefinition<T>): void {
+    this.topics.register(definition);
+  }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        cleanup();
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Request timeout'));
-      }, 5000);
-
-      const handler = (state: AcState) => {
-        cleanup();
-        resolve(state);
-      };
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        this.connectionManager.off('ac_state', handler);
-      };
-
-      // Listen for the state update
-      this.connectionManager.on('ac_state', handler);
-
-      // Request the state
-      this.connectionManager.emit('get_ac_state', {}, (response: any) => {
-        if (!response?.success) {
-          cleanup();
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Failed to get AC state'));
-        }
-        // If we already have state, resolve immediately
-        const currentState = this.stateManager.getAcState();
-        if (currentState) {
-          cleanup();
-          resolve(currentState);
-        }
-      });
-    });
+  /**
+   * Get current device state
+   */
+  public async getDevicesState(options?: RequestOptions): Promise<DeviceState> {
+    return this.getState('devices', options);
   }
 
   /**
-   * Get current in-call state
+   * Get current noise cancellation state
    */
-  public async getInCallState(): Promise<InCallState> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
-    }
+  public async getNoiseCancellationState(options?: RequestOptions): Promise<NcState> {
+    return this.getState('nc', options);
+  }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        cleanup();
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Request timeout'));
-      }, 5000);
-
-      const handler = (state: InCallState) => {
-        cleanup();
-        resolve(state);
-      };
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        this.connectionManager.off('in_call_state', handler);
-      };
-
-      // Listen for the state update
-      this.connectionManager.on('in_call_state', handler);
-
-      // Request the state
-      this.connectionManager.emit('get_in_call_state', {}, (response: any) => {
-        if (!response?.success) {
-          cleanup();
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Failed to get in-call state'));
-        }
-        // If we already have state, resolve immediately
-        const currentState = this.stateManager.getInCallState();
-        if (currentState) {
-          cleanup();
-          resolve(currentState);
-        }
-      });
-    });
+  /**
+   * Get current accent conversion state
+   */
+  public async getAccentConversionState(options?: RequestOptions): Promise<AcState> {
+    return this.getState('ac', options);
   }
 
   /**
-   * Subscribe to state updates
+   * Get current in-call state
    */
-  public async subscribe(topics: SubscriptionTopic[]): Promise<void> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
-    }
+  public async getInCallState(options?: RequestOptions): Promise<InCallState> {
+    return this.getState('in_call', options);
+  }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Request timeout'));
-      }, 5000);
-
-      this.connectionManager.emit('subscribe', { topics }, (response: any) => {
-        clearTimeout(timeout);
-        if (response?.success) {
-          // Only add topics that the server confirmed it subscribed to
-          const confirmedTopics = response.subscribed || topics;
-          confirmedTopics.forEach((topic: SubscriptionTopic) => {
-            if (topics.includes(topic)) {
-              this.subscribedTopics.add(topic);
-            }
-          });
-          console.log(`Subscribed to topics: ${topics.join(', ')}, server confirmed: ${confirmedTopics.join(', ')}`);
-          resolve();
-        } else {
-          console.error('Subscription failed:', response);
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Failed to subscribe'));
-        }
-      });
-    });
+  /**
+   * Subscribe to state updates. Topics the server does not advertise are
+   * skipped; rejects with `UNSUPPORTED_OPERATION` if none are left.
+   */
+  public subscribe(topics: TopicName[], options?: RequestOptions): Promise<void> {
+    return this.whenConnected(
+      {
+        key: 'subscribe',
+        request: 'subscribe',
+        topics,
+        run: (queued, runOptions) => this.sendSubscribe(queued, runOptions),
+      },
+      options
+    );
   }
 
   /**
    * Unsubscribe from state updates
    */
-  public async unsubscribe(topics: SubscriptionTopic[]): Promise<void> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
+  public unsubscribe(topics: TopicName[], options?: RequestOptions): Promise<void> {
+    return this.whenConnected(
+      {
+        key: 'unsubscribe',
+        request: 'unsubscribe',
+        topics,
+        run: async (queued, runOptions) => {
+          await this.requestManager.request('unsubscribe', { topics: queued }, runOptions);
+          queued.forEach((topic) => this.subscribedTopics.delete(topic));
+        },
+      },
+      options
+    );
+  }
+
+  private async sendSubscribe(requestedTopics: TopicName[], options?: RequestOptions): Promise<void> {
+    const topics = this.narrowTopics(requestedTopics);
+    if (topics.length === 0) {
+      throw new KrispRequestError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        'subscribe',
+        'unsupported',
+        `None of the topics ${requestedTopics.join(', ')} are supported by the server`
+      );
     }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Request timeout'));
-      }, 5000);
-
-      this.connectionManager.emit('unsubscribe', { topics }, (response: any) => {
-        clearTimeout(timeout);
-        if (response?.success) {
-          topics.forEach((topic) => this.subscribedTopics.delete(topic));
-          resolve();
-        } else {
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Failed to unsubscribe'));
-        }
-      });
+    const response = await this.requestManager.request('subscribe', { topics }, options);
+
+    // Only add topics that the server confirmed it subscribed to
+    const confirmedTopics: TopicName[] = response.subscribed || topics;
+    confirmedTopics.forEach((topic) => {
+      if (topics.includes(topic)) {
+        this.subscribedTopics.add(topic);
+      }
     });
+    this.logger.info('Subscribed to topics', { topics, confirmed: confirmedTopics });
+  }
+
+
+  /**
+   * Protocol version and capabilities of the connected server, or null before
+   * connecting. Reports a legacy server until the handshake is answered.
+   */
+  public getServerInfo(): ServerInfo | null {
+    return this.serverInfo ? { ...this.serverInfo } : null;
+  }
+
+  /**
+   * The call in progress with its devices and feature coverage so far, or null
+   * when not in a call
+   */
+  public getCurrentCallSession(): CallSession | null {
+    return this.callSessions.getCurrentSession();
+  }
+
+  /**
+   * State of every topic at `timestamp`, or of one topic (null if unknown then)
+   */
+  public getStateAt(timestamp: number): { [topic: string]: unknown };
+  public getStateAt<K extends keyof BuiltInTopicStates>(timestamp: number, topic: K): BuiltInTopicStates[K] | null;
+  public getStateAt<T = unknown>(timestamp: number, topic: TopicName): T | null;
+  public getStateAt(timestamp: number, topic?: TopicName): unknown {
+    return topic === undefined
+      ? this.stateManager.getStateAt(timestamp)
+      : this.stateManager.getStateAt(timestamp, topic);
+  }
+
+  /**
+   * Contiguous time ranges within `from`..`to` (default: the retained history
+   * up to now) during which `predicate` held for the state of `topic`
+   */
+  public getIntervals<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  public getIntervals<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  public getIntervals(
+    topic: TopicName,
+    predicate: (state: any) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[] {
+    return this.stateManager.getIntervals(topic, predicate, from, to);
+  }
+
+  /**
+   * Total time in ms `predicate` held for the state of `topic` within `from`..`to`
+   */
+  public getDuration<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  public getDuration<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  public getDuration(topic: TopicName, predicate: (state: any) => boolean, from?: number, to?: number): number {
+    return this.stateManager.getDuration(topic, predicate, from, to);
+  }
+
+  /**
+   * When the state of `topic` was last received and last updated by the
+   * server, and whether it is stale or still the one loaded from the snapshot store
+   */
+  public getFreshness(topic: TopicName): TopicFreshness {
+    return this.stateManager.getFreshness(topic);
+  }
+
+  /**
+   * Estimated offset of the Krisp Desktop clock from the local one in ms,
+   * positive when it is ahead; null until the first sample was taken
+   */
+  public getClockSkew(): number | null {
+    return this.stateManager.getClockSkew();
+  }
+
+  /**
+   * Resolves once the last known state has been loaded from the snapshot
+   * store; right away when it loads synchronously or there is none
+   */
+  public whenHydrated(): Promise<void> {
+    return this.stateManager.whenHydrated();
+  }
+
+  /**
+   * Probe every candidate port in parallel and report which ones responded
+   */
+  public async discover(): Promise<PortProbeResult[]> {
+    return this.connectionManager.discover();
   }
 
   /**
    * Get connection status
    */
   public getConnectionStatus(): ConnectionStatus {
-    return this.connectionManager.getStatus();
+    const status = this.connectionManager.getStatus();
+    return this.heartbeat ? { ...status, heartbeat: this.heartbeat.getStats() } : status;
   }
 
   /**
-   * Register event handler
+   * Register event handler; returns a function that removes it
    */
-  public on(event: SDKEvent, handler: EventHandler): void {
-    if (event === SDKEvent.CONNECTION_CHANGED) {
-      // Connection changes are handled separately
-      this.connectionChangeHandlers.add(handler as EventHandler<ConnectionState>);
-    } else {
-      const handlers = this.eventHandlers.get(event);
-      if (handlers) {
-        handlers.add(handler);
-      }
-    }
+  public on<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Register event handler that runs for the next occurrence only
+   */
+  public once<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe {
+    return this.events.once(event, handler);
+  }
+
+  /**
+   * Register handler for every event
+   */
+  public onAny(handler: AnyEventHandler): Unsubscribe {
+    return this.events.onAny(handler);
   }
 
   /**
    * Unregister event handler
    */
-  public off(event: SDKEvent, handler?: EventHandler): void {
-    if (event === SDKEvent.CONNECTION_CHANGED) {
-      if (handler) {
-        this.connectionChangeHandlers.delete(handler as EventHandler<ConnectionState>);
-      } else {
-        this.connectionChangeHandlers.clear();
-      }
-    } else {
-      const handlers = this.eventHandlers.get(event);
-      if (handlers) {
-        if (handler) {
-          handlers.delete(handler);
-        } else {
-          handlers.clear();
+  public off<E extends SDKEvent>(event: E, handler?: EventHandler<SDKEventMap[E]>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Ping the server (for testing connection)
+   */
+  public async ping(options?: RequestOptions): Promise<void> {
+    await this.whenConnected(
+      { key: 'ping', request: 'ping', run: (_topics, runOptions) => this.sendPing(runOptions) },
+      options
+    );
+  }
+
+  /**
+   * Stream a topic's current snapshot followed by every change
+   */
+  public stream<K extends StreamTopic>(topic: K, options?: StreamOptions): StateStream<StreamTopicMap[K]> {
+    const source = createStreamSource(topic, this.events, this.stateManager, () =>
+      this.getConnectionState()
+    );
+    return new StateStream(source, options);
+  }
+
+  /**
+   * Resolve once the live state satisfies `selector`; resolves immediately
+   * if it already does. States loaded from the snapshot store count as
+   * unknown until live data replaces them.
+   */
+  public waitFor(selector: StateSelector, options?: WaitForOptions): Promise<StateSnapshot> {
+    return waitForState(this.events, () => this.getStateSnapshot(), selector, options);
+  }
+
+  private getConnectionState(): ConnectionState {
+    const { state, connected, connecting, port, error } = this.connectionManager.getStatus();
+    return { state, connected, connecting, port, error };
+  }
+
+  private getStateSnapshot(): StateSnapshot {
+    return {
+      devices: this.stateManager.getLiveState('devices'),
+      nc: this.stateManager.getLiveState('nc'),
+      ac: this.stateManager.getLiveState('ac'),
+      inCall: this.stateManager.getLiveState('in_call'),
+      topics: this.stateManager.getLiveStates(),
+      connection: this.getConnectionState(),
+    };
+  }
+
+  /**
+   * Learn the server's protocol version and capabilities. Until the server
+   * answers the handshake it is assumed to support everything protocol 1.0.0
+   * defines, so connecting does not wait for the answer.
+   */
+  private negotiate(): void {
+    const generation = ++this.handshakeGeneration;
+    this.applyServerInfo(legacyServerInfo());
+
+    const { port } = this.connectionManager.getStatus();
+    if (port !== undefined && this.legacyPorts.has(port)) {
+      this.logger.debug('Server did not answer the handshake before, assuming legacy server', { port });
+      return;
+    }
+    this.handshake(port)
+      .then((serverInfo) => {
+        if (serverInfo && generation === this.handshakeGeneration && this.connectionManager.isConnected()) {
+          this.upgrade(serverInfo);
         }
+      })
+      .catch((error) => {
+        this.logger.debug('Handshake failed, assuming legacy server', errorFields(error));
+      });
+  }
+
+  /**
+   * Switch to the capabilities the server advertised in its handshake answer
+   */
+  private upgrade(serverInfo: ServerInfo): void {
+    const fetched = this.topics.topics().filter((topic) => this.isConfirmed(topic));
+    this.applyServerInfo(serverInfo);
+    if (!isCompatibleVersion(serverInfo.protocolVersion)) {
+      this.logger.warn('Server protocol version differs from the SDK', {
+        serverVersion: serverInfo.protocolVersion,
+        clientVersion: PROTOCOL_VERSION,
+      });
+    }
+    this.logger.info('Server info', {
+      protocolVersion: serverInfo.protocolVersion,
+      topics: serverInfo.topics,
+      negotiated: serverInfo.negotiated,
+    });
+
+    if (this.heartbeat && !serverInfo.requests.includes('ping')) {
+      this.logger.info('Server does not support ping, heartbeat disabled');
+      this.heartbeat.stop();
+    }
+    // Advertised custom topics were not fetched while the server counted as legacy
+    const added = this.topics.topics().filter((topic) => this.isConfirmed(topic) && !fetched.includes(topic));
+    if (added.length > 0) {
+      this.fetchInitialStates(added);
+    }
+  }
+
+  private applyServerInfo(serverInfo: ServerInfo): void {
+    this.serverInfo = serverInfo;
+    this.requestManager.setSupportedRequests(serverInfo.negotiated ? serverInfo.requests : null);
+  }
+
+  /**
+   * Ask the server for its capabilities; null if it is a legacy server that
+   * does not answer the handshake, or answers it malformed. A port whose
+   * server did not answer is remembered until disconnect().
+   */
+  private async handshake(port: number | undefined): Promise<ServerInfo | null> {
+    try {
+      const sentAt = Date.now();
+      const response = await this.requestManager.request(
+        SERVER_INFO_REQUEST,
+        { protocolVersion: PROTOCOL_VERSION },
+        { timeout: this.options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT }
+      );
+      this.sampleServerTime(response, sentAt);
+      const serverInfo = parseServerInfo(response);
+      if (!serverInfo) {
+        this.logger.warn('Malformed handshake response, assuming legacy server');
+      }
+      return serverInfo;
+    } catch (error) {
+      if (
+        !(error instanceof KrispRequestError) ||
+        (error.reason !== 'timeout' && error.reason !== 'rejected')
+      ) {
+        throw error;
+      }
+      this.logger.debug('Server did not answer the handshake, assuming legacy server', {
+        reason: error.reason,
+      });
+      if (port !== undefined) {
+        this.legacyPorts.add(port);
       }
+      return null;
     }
   }
 
+  private async sendPing(options?: RequestOptions): Promise<void> {
+    const sentAt = Date.now();
+    const response = await this.requestManager.request('ping', {}, options);
+    this.sampleServerTime(response, sentAt);
+  }
+
   /**
-   * Ping the server (for testing connection)
+   * Sample the clock skew from the `serverTime` a server may add to its answer
    */
-  public async ping(): Promise<void> {
-    if (!this.connectionManager.isConnected()) {
-      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
+  private sampleServerTime(response: any, sentAt: number): void {
+    if (typeof response?.serverTime === 'number') {
+      this.stateManager.addClockSample(response.serverTime, sentAt, Date.now());
     }
+  }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new KrispSDKError(ErrorCode.CONNECTION_TIMEOUT, 'Ping timeout'));
-      }, 5000);
-
-      this.connectionManager.emit('ping', {}, (response: any) => {
-        clearTimeout(timeout);
-        if (response?.success) {
-          resolve();
-        } else {
-          reject(new KrispSDKError(ErrorCode.UNKNOWN_ERROR, 'Ping failed'));
-        }
+  /**
+   * Topics from `topics` that are registered and the server advertises
+   */
+  private narrowTopics(topics: TopicName[]): TopicName[] {
+    const unregistered = topics.filter((topic) => !this.topics.has(topic));
+    if (unregistered.length > 0) {
+      this.logger.warn('Skipping unregistered topics', { topics: unregistered });
+    }
+
+    const registered = topics.filter((topic) => this.topics.has(topic));
+    const supported = registered.filter((topic) => this.isAdvertised(topic));
+    if (supported.length < registered.length) {
+      this.logger.info('Skipping topics the server does not support', {
+        topics: registered.filter((topic) => !supported.includes(topic)),
       });
-    });
+    }
+    return supported;
   }
 
-  private async fetchInitialStates(): Promise<void> {
+  /**
+   * Run `call` now, or with the offline queue enabled, once the connection
+   * being established is up
+   */
+  private whenConnected<T>(call: QueuedCall<T>, options?: RequestOptions): Promise<T> {
+    const { state } = this.connectionManager.getStatus();
+    if (!this.offlineQueue || this.connectionManager.isConnected() || !isConnectingState(state)) {
+      return call.run(call.topics ?? [], options ?? {});
+    }
+    this.logger.debug('Queued request until connected', { request: call.request, state });
+    return this.offlineQueue.enqueue(call, options);
+  }
+
+  /**
+   * Whether the server may support `topic`. Servers without the handshake
+   * advertise nothing, so every registered topic is tried with them.
+   */
+  private isAdvertised(topic: TopicName): boolean {
+    return !this.serverInfo?.negotiated || this.serverInfo.topics.includes(topic);
+  }
+
+  /**
+   * Whether the server is known to support `topic`: it advertised it, or it is
+   * a built-in topic every Krisp Desktop version supports
+   */
+  private isConfirmed(topic: TopicName): boolean {
+    if (this.serverInfo?.negotiated) {
+      return this.serverInfo.topics.includes(topic);
+    }
+    return BUILT_IN_TOPICS.some((definition) => definition.topic === topic);
+  }
+
+  private startHeartbeat(): void {
+    if (!this.heartbeat) {
+      return;
+    }
+    if (!this.serverInfo?.requests.includes('ping')) {
+      this.logger.info('Server does not support ping, heartbeat disabled');
+      return;
+    }
+    this.heartbeat.start();
+  }
+
+  private async fetchInitialStates(
+    // Unconfirmed topics could hold up connecting until the request timeout;
+    // their state arrives once subscribed
+    topics: TopicName[] = this.topics.topics().filter((topic) => this.isConfirmed(topic))
+  ): Promise<void> {
     try {
-      await Promise.all([
-        this.getDevicesState().catch(() => {
-          // Ignore errors, state will be available when subscribed
-        }),
-        this.getNoiseCancellationState().catch(() => {
-          // Ignore errors, state will be available when subscribed
-        }),
-        this.getAccentConversionState().catch(() => {
-          // Ignore errors, state will be available when subscribed
-        }),
-        this.getInCallState().catch(() => {
-          // Ignore errors, state will be available when subscribed
-        }),
-      ]);
+      await this.fetchAllStates(undefined, topics);
     } catch (error) {
-      // Initial fetch errors are non-fatal
-      console.warn('Failed to fetch initial states:', error);
+      // Initial fetch errors are non-fatal, state will be available when subscribed
+      this.logger.warn('Failed to fetch initial states', errorFields(error));
     }
   }
 
-  private emitToHandlers(event: SDKEvent, data: any): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      handlers.forEach((handler) => {
-        try {
-          handler(data);
-        } catch (error) {
-          console.error(`Error in event handler for ${event}:`, error);
+  private async fetchAllStatesBatched(topics: TopicName[], options?: RequestOptions): Promise<void> {
+    const response = await this.requestManager.request(ALL_STATES_REQUEST, { topics }, options);
+    const states = response.states ?? {};
+    const messages = topics
+      .filter((topic) => states[topic] !== undefined)
+      .map((topic) => ({ event: this.topics.get(topic)!.message, data: states[topic] }));
+    try {
+      this.stateManager.handleMessages(messages);
+    } catch (error) {
+      throw new KrispRequestError(
+        ErrorCode.INVALID_MESSAGE,
+        ALL_STATES_REQUEST,
+        'invalid_response',
+        `Request '${ALL_STATES_REQUEST}' received an invalid state`,
+        error as Error
+      );
+    }
+  }
+
+  private async fetchAllStatesCoordinated(topics: TopicName[], options?: RequestOptions): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const before = topics.map((topic) => this.stateManager.getMessageCount(topic));
+      const results = await Promise.allSettled(topics.map((topic) => this.getState(topic, options)));
+
+      const fetched = topics.filter((_topic, index) => results[index].status === 'fulfilled');
+      if (fetched.length < topics.length) {
+        const { reason } = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+        if (fetched.length === 0) {
+          throw reason;
         }
-      });
+        // Keep the topics that were fetched rather than failing them all
+        const failed = topics.filter((topic) => !fetched.includes(topic));
+        this.logger.warn('Failed to fetch some states', { topics: failed, ...errorFields(reason) });
+      }
+
+      // Each fetch receives one message; more means the topic was pushed meanwhile
+      const changed = topics.filter(
+        (topic, index) =>
+          results[index].status === 'fulfilled' && this.stateManager.getMessageCount(topic) - before[index] > 1
+      );
+      if (changed.length === 0) {
+        return;
+      }
+      if (attempt >= MAX_ALL_STATES_ATTEMPTS) {
+        this.logger.warn('State kept changing while fetching all states', { topics: changed, attempts: attempt });
+        return;
+      }
+      this.logger.debug('State changed while fetching all states, fetching again', { topics: changed, attempt });
+      topics = fetched;
     }
   }
 
   private emitError(error: KrispSDKError): void {
-    this.emitToHandlers(SDKEvent.ERROR, {
+    if (error instanceof KrispValidationError) {
+      this.logger.warn('Invalid server message', {
+        message: error.messageType,
+        path: error.path,
+        expected: error.expected,
+        received: error.received,
+        code: error.code,
+      });
+      this.events.emit(SDKEvent.ERROR, {
+        code: error.code,
+        message: error.message,
+        originalError: error,
+        messageType: error.messageType,
+        path: error.path,
+        expected: error.expected,
+        received: error.received,
+        excerpt: error.excerpt,
+      });
+      return;
+    }
+
+    this.events.emit(SDKEvent.ERROR, {
       code: error.code,
       message: error.message,
       originalError: error.originalError,
     });
   }
 
-  private emitConnectionChange(status: ConnectionStatus): void {
+  private emitConnectionChange(status: ConnectionStatus, transition: ConnectionTransition): void {
     const connectionState: ConnectionState = {
+      state: status.state,
       connected: status.connected,
       connecting: status.connecting,
+      port: status.port,
+      previousPort: status.previousPort,
+      reconnect: status.reconnect,
       error: status.error,
     };
 
-    // Detect reconnection: was disconnected, now connected
-    const justReconnected = !this.wasConnected && status.connected && this.isReconnecting;
-    
-    if (status.connected && !this.wasConnected) {
-      // Connection established (initial or reconnection)
-      this.isReconnecting = this.wasConnected; // If wasConnected was true, this is a reconnection
-      this.wasConnected = true;
-      
-      // On reconnection, re-subscribe and fetch states
-      if (justReconnected) {
-        this.handleReconnection().catch((error) => {
-          console.error('Error during reconnection handling:', error);
-        });
-      }
-    } else if (!status.connected && this.wasConnected) {
+    if (transition.to === 'connected') {
+      this.stateManager.startConnection();
+    }
+    if (transition.from === 'connected') {
       // Connection lost
-      this.wasConnected = false;
-      this.isReconnecting = true;
+      this.heartbeat?.stop();
+      this.requestManager.cancelAll('disconnected');
+    } else if (transition.to === 'connected' && transition.from === 'reconnecting') {
+      // On reconnection, re-subscribe and fetch states
+      this.handleReconnection().catch((error) => {
+        this.logger.error('Error during reconnection handling', errorFields(error));
+      });
+    }
+    if (transition.to === 'failed' || transition.to === 'closed') {
+      // Queued calls would otherwise wait out their deadline
+      this.offlineQueue?.rejectAll('disconnected');
     }
 
-    // Emit to dedicated handlers
-    this.connectionChangeHandlers.forEach((handler) => {
-      try {
-        handler(connectionState);
-      } catch (error) {
-        console.error('Error in connection change handler:', error);
-      }
-    });
-    // Also emit to regular event handlers
-    this.emitToHandlers(SDKEvent.CONNECTION_CHANGED, connectionState);
+    this.events.emit(SDKEvent.CONNECTION_TRANSITION, transition);
+    this.events.emit(SDKEvent.CONNECTION_CHANGED, connectionState);
+    if (status.reconnect) {
+      this.events.emit(SDKEvent.RECONNECT_SCHEDULED, status.reconnect);
+    }
   }
 
   private async handleReconnection(): Promise<void> {
@@ -511,10 +931,15 @@ export class KrispLocalMonitoringSDK implements IKrispLocalMonitoringSDK {
       }
 
       if (!this.connectionManager.isConnected()) {
-        console.warn('Connection not ready after reconnection');
+        this.logger.warn('Connection not ready after reconnection');
         return;
       }
 
+      // Krisp Desktop may have been updated while we were disconnected
+      this.negotiate();
+      this.offlineQueue?.flush();
+      this.startHeartbeat();
+
       // Re-fetch initial states
       await this.fetchInitialStates();
 
@@ -522,13 +947,13 @@ export class KrispLocalMonitoringSDK implements IKrispLocalMonitoringSDK {
       if (this.options.autoSubscribe !== false) {
         const topics = this.subscribedTopics.size > 0
           ? Array.from(this.subscribedTopics)
-          : (this.options.autoSubscribeTopics || ['devices', 'nc', 'ac', 'in_call']);
+          : (this.options.autoSubscribeTopics || this.topics.topics());
         
         await this.subscribe(topics);
-        console.log(`Re-subscribed to topics after reconnection: ${topics.join(', ')}`);
+        this.logger.info('Re-subscribed to topics after reconnection', { topics });
       }
     } catch (error) {
-      console.error('Failed to handle reconnection:', error);
+      this.logger.error('Failed to handle reconnection', errorFields(error));
     }
   }
 }
@@ -537,5 +962,59 @@ export class KrispLocalMonitoringSDK implements IKrispLocalMonitoringSDK {
 export * from './types';
 export * from './events';
 export * from './errors';
+export { ConnectionOptions, ConnectionStatus, DiscoveryMode, PortProbeResult } from './connection-manager';
+export {
+  ConnectionLifecycleState,
+  ConnectionTransition,
+  ConnectionStateMachine,
+  isConnectingState,
+} from './connection-state-machine';
+export { RequestOptions } from './request-manager';
+export * from './reconnect-policy';
+export * from './logger';
+export { ValidationMode, ValidationResult, validateMessage } from './message-schema';
+export { ServerInfo, PROTOCOL_VERSION, ALL_STATES_REQUEST } from './server-info';
+export {
+  TopicDefinition,
+  TopicName,
+  BuiltInTopicStates,
+  StateChangeEventName,
+  TopicRegistry,
+  BUILT_IN_TOPICS,
+} from './topic-registry';
+export { isDeepEqual, diffState, diffDevicePair } from './state-diff';
+export { DeviceEvent, deriveDeviceEvents } from './device-events';
+export { CallSession, CallDeviceSwitch, CallEndReason, FeatureCoverage } from './call-session-tracker';
+export { Transport, WireSocket } from './transport';
+export * from './wire-capture';
+export { ReplayTransport, ReplayOptions, ReplaySentEvent } from './replay-transport';
+export { StateTimeline, TimelineOptions, TimelineEntry, TimeInterval } from './state-timeline';
+export {
+  OrderedUpdate,
+  TopicFreshness,
+  ClockSkewEstimator,
+  orderByUpdatedAt,
+  orderDevicePair,
+  latestUpdatedAt,
+} from './state-ordering';
+export {
+  SnapshotStore,
+  PersistedSnapshot,
+  PersistedTopicState,
+  SNAPSHOT_VERSION,
+  isPersistedSnapshot,
+} from './snapshot-store';
+export { OfflineQueue, OfflineQueueOptions, QueuedCall } from './offline-queue';
+export { HeartbeatMonitor, HeartbeatOptions, HeartbeatStats, HeartbeatEvent } from './heartbeat';
+export { StateSnapshot, StateSelector, WaitForOptions } from './wait-for';
+export {
+  StateStream,
+  StreamTopic,
+  StreamTopicMap,
+  StreamOptions,
+  StreamOverflowStrategy,
+  StreamObserver,
+  StreamSubscription,
+} from './state-stream';
 export { KrispLocalMonitoringSDK as default };
 
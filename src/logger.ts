@@ -0,0 +1,101 @@
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context attached to a log line, e.g. `port`, `attempt`, `topic`, `code`
+ */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  trace(message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+const noop = () => {};
+
+/**
+ * Discards everything; the SDK's default logger
+ */
+export const noopLogger: Logger = {
+  trace: noop,
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+export interface ConsoleLoggerOptions {
+  /**
+   * Lowest level written (default: info)
+   */
+  level?: LogLevel;
+  /**
+   * Console to write to (default: the global `console`)
+   */
+  console?: Pick<Console, 'debug' | 'info' | 'warn' | 'error'>;
+}
+
+/**
+ * Logger writing to the console as `component: message { ...fields }`
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const threshold = LOG_LEVELS.indexOf(options.level ?? 'info');
+  const target = options.console ?? console;
+
+  const write = (level: LogLevel) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) {
+      return noop;
+    }
+    const method = level === 'trace' ? 'debug' : level;
+
+    return (message: string, fields: LogFields = {}) => {
+      const { component, ...rest } = fields;
+      const line = component ? `${component}: ${message}` : message;
+      Object.keys(rest).forEach((key) => rest[key] === undefined && delete rest[key]);
+      if (Object.keys(rest).length > 0) {
+        target[method](line, rest);
+      } else {
+        target[method](line);
+      }
+    };
+  };
+
+  return {
+    trace: write('trace'),
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Logger adding `fields` to every line written through it
+ */
+export function withFields(logger: Logger, fields: LogFields): Logger {
+  const write = (level: LogLevel) => (message: string, extra?: LogFields) =>
+    logger[level](message, { ...fields, ...extra });
+
+  return {
+    trace: write('trace'),
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Log fields describing an error, without the stack
+ */
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code;
+    return code !== undefined ? { code, error: error.message } : { error: error.message };
+  }
+  return { error: String(error) };
+}
@@ -0,0 +1,259 @@
+import { DeviceInfo, DeviceState, NcState, AcState, InCallState, ServerToClientMessages } from './types';
+import { KrispValidationError } from './errors';
+
+/**
+ * How strictly server messages are checked:
+ * - `strict`: every field must be present with its declared type
+ * - `lenient`: a missing `updatedAt` becomes the receive time, a missing
+ *   `physicalDeviceInfo` becomes `null`, and malformed optional `DeviceInfo`
+ *   fields are dropped. Missing or mistyped required values are still rejected.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+const EXCERPT_MAX_LENGTH = 200;
+const REDACTED = '[redacted]';
+
+interface ValidationContext {
+  messageType: string;
+  payload: unknown;
+  mode: ValidationMode;
+  now: number;
+  /**
+   * Lenient-mode repairs, as `path: description`
+   */
+  repairs: string[];
+}
+
+type Check<T> = (value: unknown, path: string, ctx: ValidationContext) => T;
+
+/**
+ * Type name of a received value as used in validation errors
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * JSON excerpt of a payload with every string value redacted, so device names
+ * and ids never end up in logs or error reports
+ */
+export function redactedExcerpt(payload: unknown): string {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(payload, (_key, value) => (typeof value === 'string' ? REDACTED : value));
+  } catch {
+    json = undefined;
+  }
+  json = json ?? describe(payload);
+  return json.length > EXCERPT_MAX_LENGTH ? `${json.slice(0, EXCERPT_MAX_LENGTH)}…` : json;
+}
+
+function fail(ctx: ValidationContext, path: string, expected: string, value: unknown): never {
+  const received = describe(value);
+  throw new KrispValidationError(
+    ctx.messageType,
+    path,
+    expected,
+    received,
+    redactedExcerpt(ctx.payload),
+    `Invalid '${ctx.messageType}' message: expected ${expected} at ${path}, received ${received}`
+  );
+}
+
+/**
+ * `KrispValidationError` for a payload rejected by a custom topic validator
+ */
+export function invalidMessageError(messageType: string, payload: unknown, error: unknown): KrispValidationError {
+  const reason = error instanceof Error ? error.message : String(error);
+  return new KrispValidationError(
+    messageType,
+    messageType,
+    'valid payload',
+    describe(payload),
+    redactedExcerpt(payload),
+    `Invalid '${messageType}' message: ${reason}`
+  );
+}
+
+function primitive<T>(type: 'string' | 'boolean' | 'number'): Check<T> {
+  return (value, path, ctx) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      fail(ctx, path, type, value);
+    }
+    return value as T;
+  };
+}
+
+const string = primitive<string>('string');
+const boolean = primitive<boolean>('boolean');
+const number = primitive<number>('number');
+
+/**
+ * Millisecond timestamp; defaults to the receive time in lenient mode
+ */
+const timestamp: Check<number> = (value, path, ctx) => {
+  if (value === undefined && ctx.mode === 'lenient') {
+    ctx.repairs.push(`${path}: missing, using receive time`);
+    return ctx.now;
+  }
+  return number(value, path, ctx);
+};
+
+/**
+ * Optional field; in lenient mode a malformed value is dropped instead of rejected
+ */
+function optional<T>(check: Check<T>): Check<T | undefined> {
+  return (value, path, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (ctx.mode === 'strict') {
+      return check(value, path, ctx);
+    }
+    try {
+      return check(value, path, ctx);
+    } catch (error) {
+      if (!(error instanceof KrispValidationError)) {
+        throw error;
+      }
+      ctx.repairs.push(`${path}: ${error.expected} expected, dropped ${error.received}`);
+      return undefined;
+    }
+  };
+}
+
+function record(value: unknown, path: string, ctx: ValidationContext, expected = 'object'): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    fail(ctx, path, expected, value);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Object with the given fields; unknown fields are ignored so newer servers
+ * can add data without breaking older clients
+ */
+function object<T>(fields: { [K in keyof T]-?: Check<T[K]> }, name = 'object'): Check<T> {
+  return (value, path, ctx) => {
+    const input = record(value, path, ctx, name);
+    const result: Partial<T> = {};
+    (Object.keys(fields) as Array<keyof T>).forEach((key) => {
+      const parsed = fields[key](input[key as string], `${path}.${String(key)}`, ctx);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    });
+    return result as T;
+  };
+}
+
+/**
+ * Microphone/speaker pair keyed by `AudioDeviceType`. Servers may send it as a
+ * `[microphone, speaker]` array, which is normalized to the keyed object.
+ */
+function devicePair<T>(check: Check<T>): Check<{ 0: T; 1: T }> {
+  return (value, path, ctx) => {
+    const input: { [index: number]: unknown } = Array.isArray(value) ? value : record(value, path, ctx);
+    return {
+      0: check(input[0], `${path}[0]`, ctx),
+      1: check(input[1], `${path}[1]`, ctx),
+    };
+  };
+}
+
+const deviceInfo = object<DeviceInfo>(
+  {
+    id: string,
+    name: string,
+    description: optional(string),
+    manufacturer: optional(string),
+    modelId: optional(string),
+    bus: optional(string),
+    formFactor: optional(string),
+    isMuted: optional(boolean),
+    isDefaultMultimedia: optional(boolean),
+    isDefaultCommunication: optional(boolean),
+    isKrisp: optional(boolean),
+    isHIDHeadset: optional(boolean),
+    isDisabled: optional(boolean),
+    isAvailable: optional(boolean),
+  },
+  'DeviceInfo'
+);
+
+const physicalDeviceInfo: Check<DeviceInfo | null> = (value, path, ctx) => {
+  if (value === null) {
+    return null;
+  }
+  if (value === undefined && ctx.mode === 'lenient') {
+    ctx.repairs.push(`${path}: missing, using null`);
+    return null;
+  }
+  if (value === undefined) {
+    fail(ctx, path, 'DeviceInfo | null', value);
+  }
+  return deviceInfo(value, path, ctx);
+};
+
+const featureState = object<{ enabled: boolean; updatedAt: number }>({
+  enabled: boolean,
+  updatedAt: timestamp,
+});
+
+const SCHEMAS: { [K in keyof ServerToClientMessages]: Check<ServerToClientMessages[K]> } = {
+  device_state: devicePair(
+    object({
+      physicalDeviceInfo,
+      updatedAt: timestamp,
+    })
+  ) as Check<DeviceState>,
+  nc_state: devicePair(featureState) as Check<NcState>,
+  ac_state: devicePair(featureState) as Check<AcState>,
+  in_call_state: object<InCallState>({
+    inCall: boolean,
+    updatedAt: timestamp,
+  }),
+  error: (value, path, ctx) => {
+    const input = record(value, path, ctx);
+    const code = ctx.mode === 'lenient' ? optional(string) : string;
+    return {
+      code: code(input.code, `${path}.code`, ctx) ?? '',
+      message: string(input.message, `${path}.message`, ctx),
+    };
+  },
+  pong: () => ({}),
+};
+
+export interface ValidationResult<T> {
+  value: T;
+  /**
+   * What lenient mode filled in or dropped; empty in strict mode
+   */
+  repairs: string[];
+}
+
+/**
+ * Check a server message against its schema and return the normalized payload.
+ * Throws `KrispValidationError` (`INVALID_MESSAGE`) naming the offending path.
+ */
+export function validateMessage<K extends keyof ServerToClientMessages>(
+  messageType: K,
+  payload: unknown,
+  mode: ValidationMode = 'strict'
+): ValidationResult<ServerToClientMessages[K]> {
+  const ctx: ValidationContext = {
+    messageType,
+    payload,
+    mode,
+    now: Date.now(),
+    repairs: [],
+  };
+  const value = (SCHEMAS[messageType] as Check<ServerToClientMessages[K]>)(payload, messageType, ctx);
+  return { value, repairs: ctx.repairs };
+}
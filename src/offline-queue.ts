@@ -0,0 +1,206 @@
+import { ErrorCode, KrispRequestError, RequestFailureReason } from './errors';
+import { RequestOptions } from './request-manager';
+import { TopicName } from './topic-registry';
+import { TimerScheduler, defaultScheduler } from './timers';
+
+const DEFAULT_QUEUE_DEADLINE = 10000;
+const DEFAULT_QUEUE_SIZE = 100;
+
+export interface OfflineQueueOptions {
+  /**
+   * How long a call may wait for the connection before it is rejected with
+   * `CONNECTION_TIMEOUT`, in ms (default: 10000)
+   */
+  deadline?: number;
+  /**
+   * Calls that can wait at once; further ones are rejected with
+   * `CONNECTION_REFUSED` (default: 100). Calls joining a queued one do not count.
+   */
+  maxSize?: number;
+}
+
+/**
+ * A call that can wait for the connection
+ */
+export interface QueuedCall<T> {
+  /**
+   * Calls with the same key share one execution, e.g. `getState:nc`
+   */
+  key: string;
+  /**
+   * Request name reported in errors
+   */
+  request: string;
+  /**
+   * For `subscribe`/`unsubscribe`: topics merged into the latest queued call
+   * with the same key, unless another topic call was queued after it
+   */
+  topics?: TopicName[];
+  /**
+   * Send the request; queued calls run without an abort signal, since each
+   * caller's signal only withdraws that caller
+   */
+  run: (topics: TopicName[], options: RequestOptions) => Promise<T>;
+}
+
+interface Waiter {
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  /**
+   * Stop the deadline timer and abort listener
+   */
+  release: () => void;
+}
+
+interface Entry {
+  call: QueuedCall<any>;
+  /**
+   * Request timeout of the first caller
+   */
+  timeout?: number;
+  topics: TopicName[];
+  waiters: Set<Waiter>;
+}
+
+/**
+ * Holds calls made while the connection is being (re-)established and runs
+ * them, in order and deduplicated, once it is back
+ */
+export class OfflineQueue {
+  private entries: Entry[] = [];
+  private flushing: Promise<void> | null = null;
+
+  constructor(
+    private options: OfflineQueueOptions = {},
+    private schedule: TimerScheduler = defaultScheduler
+  ) {}
+
+  public enqueue<T>(call: QueuedCall<T>, options: RequestOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(this.error(call.request, 'aborted', `Request '${call.request}' was aborted`));
+    }
+
+    const entry = this.findEntry(call) ?? this.addEntry(call, options.timeout);
+    if (!entry) {
+      return Promise.reject(
+        this.error(call.request, 'not_connected', `Request '${call.request}' failed: not connected and the queue is full`)
+      );
+    }
+    (call.topics ?? []).forEach((topic) => {
+      if (!entry.topics.includes(topic)) {
+        entry.topics.push(topic);
+      }
+    });
+
+    return new Promise<T>((resolve, reject) => {
+      const deadline = this.options.deadline ?? DEFAULT_QUEUE_DEADLINE;
+      const leave = (error: KrispRequestError) => {
+        waiter.release();
+        entry.waiters.delete(waiter);
+        if (entry.waiters.size === 0) {
+          this.entries = this.entries.filter((queued) => queued !== entry);
+        }
+        reject(error);
+      };
+      const onAbort = () => leave(this.error(call.request, 'aborted', `Request '${call.request}' was aborted`));
+      const cancelTimer = this.schedule(
+        () =>
+          leave(
+            this.error(
+              call.request,
+              'timeout',
+              `Request '${call.request}' failed: not connected within ${deadline}ms`,
+              ErrorCode.CONNECTION_TIMEOUT
+            )
+          ),
+        deadline
+      );
+
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        release: () => {
+          cancelTimer();
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      entry.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Run every queued call in the order queued. Calls queued while flushing run
+   * in the same pass.
+   */
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      // Cleared asynchronously: drain() may finish synchronously on an empty queue
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Reject every queued call, e.g. when the connection attempt failed for good
+   */
+  public rejectAll(reason: RequestFailureReason = 'disconnected'): void {
+    const entries = this.entries;
+    this.entries = [];
+    entries.forEach((entry) => {
+      const error = this.error(entry.call.request, reason, `Request '${entry.call.request}' failed: connection lost`);
+      entry.waiters.forEach((waiter) => {
+        waiter.release();
+        waiter.reject(error);
+      });
+    });
+  }
+
+  public size(): number {
+    return this.entries.length;
+  }
+
+  private async drain(): Promise<void> {
+    let entry: Entry | undefined;
+    while ((entry = this.entries.shift())) {
+      const waiters = Array.from(entry.waiters);
+      waiters.forEach((waiter) => waiter.release());
+      try {
+        const value = await entry.call.run(entry.topics, { timeout: entry.timeout });
+        waiters.forEach((waiter) => waiter.resolve(value));
+      } catch (error) {
+        waiters.forEach((waiter) => waiter.reject(error));
+      }
+    }
+  }
+
+  private findEntry(call: QueuedCall<unknown>): Entry | undefined {
+    if (call.topics) {
+      // Topic calls only merge with the latest one, so subscribe/unsubscribe order is kept
+      const latest = [...this.entries].reverse().find((entry) => entry.call.topics);
+      return latest?.call.key === call.key ? latest : undefined;
+    }
+    return this.entries.find((entry) => entry.call.key === call.key);
+  }
+
+  private addEntry(call: QueuedCall<unknown>, timeout?: number): Entry | null {
+    if (this.entries.length >= (this.options.maxSize ?? DEFAULT_QUEUE_SIZE)) {
+      return null;
+    }
+    const entry: Entry = { call, timeout, topics: [], waiters: new Set() };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private error(
+    request: string,
+    reason: RequestFailureReason,
+    message: string,
+    code: ErrorCode = reason === 'aborted' ? ErrorCode.REQUEST_ABORTED : ErrorCode.CONNECTION_REFUSED
+  ): KrispRequestError {
+    return new KrispRequestError(code, request, reason, message);
+  }
+}
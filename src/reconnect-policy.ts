@@ -0,0 +1,170 @@
+/**
+ * Reconnection strategies used by `ConnectionManager` after an unexpected disconnect
+ */
+
+export interface ReconnectContext {
+  /**
+   * 1-based number of the attempt being scheduled
+   */
+  attempt: number;
+  /**
+   * Error message of the previous failed attempt, if any
+   */
+  lastError?: string;
+}
+
+export interface ReconnectDecision {
+  /**
+   * Time to wait before acting, in ms
+   */
+  delay: number;
+  /**
+   * When false, no connection attempt is made after the delay; the policy is
+   * simply asked again (used to pause reconnecting). Default: true
+   */
+  attempt?: boolean;
+  /**
+   * Short machine-readable explanation, e.g. `backoff`, `idle`, `circuit_open`
+   */
+  reason?: string;
+}
+
+export interface ReconnectPolicy {
+  readonly name: string;
+  /**
+   * Decide when to try next; `null` gives up reconnecting
+   */
+  next(context: ReconnectContext): ReconnectDecision | null;
+  /**
+   * Called after a connection is (re-)established
+   */
+  reset?(): void;
+}
+
+/**
+ * A scheduled reconnect as reported through `CONNECTION_CHANGED` and `RECONNECT_SCHEDULED`
+ */
+export interface ReconnectSchedule {
+  attempt: number;
+  delay: number;
+  /**
+   * False when the SDK only waits and re-checks without connecting
+   */
+  willAttempt: boolean;
+  policy: string;
+  reason?: string;
+}
+
+export interface ExponentialBackoffOptions {
+  initialDelay?: number;
+  maxDelay?: number;
+  multiplier?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Exponential backoff with full jitter: each delay is uniformly random between
+ * 0 and `min(maxDelay, initialDelay * multiplier^(attempt - 1))`, so many
+ * clients losing Krisp at the same time do not reconnect in lockstep
+ */
+export function exponentialBackoff(options: ExponentialBackoffOptions = {}): ReconnectPolicy {
+  const initialDelay = options.initialDelay ?? 1000;
+  const maxDelay = options.maxDelay ?? 30000;
+  const multiplier = options.multiplier ?? 2;
+  const maxAttempts = options.maxAttempts ?? Infinity;
+
+  return {
+    name: 'exponential',
+    next: ({ attempt }) => {
+      if (attempt > maxAttempts) {
+        return null;
+      }
+      const ceiling = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1));
+      return { delay: Math.round(Math.random() * ceiling), reason: 'backoff' };
+    },
+  };
+}
+
+export interface FixedIntervalOptions {
+  interval?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Retry at a constant interval
+ */
+export function fixedInterval(options: FixedIntervalOptions = {}): ReconnectPolicy {
+  const interval = options.interval ?? 5000;
+  const maxAttempts = options.maxAttempts ?? Infinity;
+
+  return {
+    name: 'fixed',
+    next: ({ attempt }) => (attempt > maxAttempts ? null : { delay: interval, reason: 'interval' }),
+  };
+}
+
+export interface PauseWhileIdleOptions {
+  /**
+   * Returns true while reconnecting should be paused (e.g. system idle or asleep)
+   */
+  isIdle: () => boolean;
+  /**
+   * How often to re-check `isIdle` while paused, in ms (default: 5000)
+   */
+  checkInterval?: number;
+}
+
+/**
+ * Delegate to `policy`, but make no attempts while `isIdle()` returns true
+ */
+export function pauseWhileIdle(
+  policy: ReconnectPolicy,
+  options: PauseWhileIdleOptions
+): ReconnectPolicy {
+  const checkInterval = options.checkInterval ?? 5000;
+
+  return {
+    name: `pause-while-idle(${policy.name})`,
+    next: (context) =>
+      options.isIdle()
+        ? { delay: checkInterval, attempt: false, reason: 'idle' }
+        : policy.next(context),
+    reset: () => policy.reset?.(),
+  };
+}
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failed attempts that open the circuit (default: 5)
+   */
+  failureThreshold?: number;
+  /**
+   * How long to stop trying once the circuit is open, in ms (default: 60000)
+   */
+  cooldown?: number;
+}
+
+/**
+ * Delegate to `policy` until `failureThreshold` attempts in a row failed, then
+ * wait a full `cooldown` before each further single attempt (half-open) until
+ * one succeeds
+ */
+export function circuitBreaker(
+  policy: ReconnectPolicy,
+  options: CircuitBreakerOptions = {}
+): ReconnectPolicy {
+  const failureThreshold = options.failureThreshold ?? 5;
+  const cooldown = options.cooldown ?? 60000;
+
+  return {
+    name: `circuit-breaker(${policy.name})`,
+    next: (context) => {
+      const failures = context.attempt - 1;
+      if (failures >= failureThreshold) {
+        return { delay: cooldown, reason: 'circuit_open' };
+      }
+      return policy.next(context);
+    },
+    reset: () => policy.reset?.(),
+  };
+}
@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { IKrispLocalMonitoringSDK } from '../index';
+import { SDKEvent, SDKErrorEvent, StateChange, Unsubscribe } from '../events';
+import { ConnectionTransition } from '../connection-state-machine';
+import { Logger, noopLogger, withFields, errorFields } from '../logger';
+import { DEFAULT_FILE_PREFIX, LogFile, listLogFiles, logFileName } from './log-files';
+
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILE_AGE = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_FILES = 10;
+
+interface EntryBase {
+  /**
+   * Increases by one per entry, continuing across recorder restarts
+   */
+  seq: number;
+  /**
+   * When the SDK received the update, in ms since the epoch
+   */
+  receivedAt: number;
+}
+
+export interface RecordedStateEntry extends EntryBase {
+  kind: 'state';
+  topic: string;
+  /**
+   * Validated state after the update
+   */
+  state: unknown;
+  changes: StateChange[];
+}
+
+export interface RecordedConnectionEntry extends EntryBase {
+  kind: 'connection';
+  transition: ConnectionTransition;
+}
+
+export interface RecordedErrorEntry extends EntryBase {
+  kind: 'error';
+  error: Omit<SDKErrorEvent, 'originalError'>;
+}
+
+/**
+ * One line of a recording
+ */
+export type RecordedEntry = RecordedStateEntry | RecordedConnectionEntry | RecordedErrorEntry;
+
+export type RecordedEntryKind = RecordedEntry['kind'];
+
+type EntryPayload =
+  | Omit<RecordedStateEntry, keyof EntryBase>
+  | Omit<RecordedConnectionEntry, keyof EntryBase>
+  | Omit<RecordedErrorEntry, keyof EntryBase>;
+
+export interface EventRecorderOptions {
+  /**
+   * Directory the log files are written to; created if missing
+   */
+  directory: string;
+  /**
+   * File name prefix (default: `krisp-events`)
+   */
+  prefix?: string;
+  /**
+   * Start a new file once the current one would exceed this many bytes (default: 10 MiB)
+   */
+  maxFileSize?: number;
+  /**
+   * Start a new file once the current one is this old, in ms (default: 24 hours)
+   */
+  maxFileAge?: number;
+  /**
+   * Delete the oldest files beyond this count (default: 10)
+   */
+  maxFiles?: number;
+  /**
+   * Delete files whose entries are all older than this, in ms (default: no limit)
+   */
+  retention?: number;
+  logger?: Logger;
+  now?: () => number;
+}
+
+interface CurrentFile {
+  path: string;
+  startedAt: number;
+  size: number;
+}
+
+/**
+ * Appends every state change, connection transition and error the SDK reports
+ * to rotating newline-delimited JSON files
+ */
+export class EventRecorder {
+  private seq = 0;
+  private current: CurrentFile | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private unsubscribes: Unsubscribe[] = [];
+  private logger: Logger;
+
+  constructor(
+    private sdk: Pick<IKrispLocalMonitoringSDK, 'on'>,
+    private options: EventRecorderOptions
+  ) {
+    this.logger = withFields(options.logger ?? noopLogger, { component: 'EventRecorder' });
+  }
+
+  /**
+   * Start recording into a new file, continuing the sequence of earlier recordings
+   */
+  public async start(): Promise<void> {
+    if (this.unsubscribes.length > 0) {
+      return;
+    }
+    await fs.mkdir(this.options.directory, { recursive: true });
+    this.seq = await this.lastSequence();
+    this.current = null;
+
+    this.unsubscribes = [
+      this.sdk.on(SDKEvent.TOPIC_CHANGED, ({ topic, current, changes }) =>
+        this.record({ kind: 'state', topic, state: current, changes })
+      ),
+      this.sdk.on(SDKEvent.CONNECTION_TRANSITION, (transition) =>
+        this.record({ kind: 'connection', transition })
+      ),
+      this.sdk.on(SDKEvent.ERROR, ({ originalError: _originalError, ...error }) =>
+        this.record({ kind: 'error', error })
+      ),
+    ];
+    this.logger.info('Recording started', { directory: this.options.directory, seq: this.seq });
+  }
+
+  /**
+   * Stop recording once every pending entry is written
+   */
+  public async stop(): Promise<void> {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    await this.flush();
+    this.current = null;
+  }
+
+  /**
+   * Resolves once every entry recorded so far is written
+   */
+  public flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private record(payload: EntryPayload): void {
+    const entry = { seq: ++this.seq, receivedAt: this.now(), ...payload } as RecordedEntry;
+    this.writes = this.writes
+      .then(() => this.write(entry))
+      .catch((error) => {
+        this.logger.error('Failed to write entry', { seq: entry.seq, ...errorFields(error) });
+      });
+  }
+
+  private async write(entry: RecordedEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    const size = Buffer.byteLength(line);
+    if (!this.current || this.shouldRotate(this.current, size, entry.receivedAt)) {
+      await this.rotate(entry);
+    }
+    await fs.appendFile(this.current!.path, line);
+    this.current!.size += size;
+  }
+
+  private shouldRotate(file: CurrentFile, size: number, at: number): boolean {
+    return (
+      (file.size > 0 && file.size + size > (this.options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE)) ||
+      at - file.startedAt >= (this.options.maxFileAge ?? DEFAULT_MAX_FILE_AGE)
+    );
+  }
+
+  private async rotate(entry: RecordedEntry): Promise<void> {
+    const name = logFileName(this.prefix(), entry.receivedAt, entry.seq);
+    this.current = { path: path.join(this.options.directory, name), startedAt: entry.receivedAt, size: 0 };
+    this.logger.debug('Rotated log file', { file: name });
+    await this.applyRetention(entry.receivedAt);
+  }
+
+  /**
+   * Delete files beyond `maxFiles` and, with `retention`, files whose newest
+   * entry is older than it. The file being written is always kept.
+   */
+  private async applyRetention(now: number): Promise<void> {
+    const files = (await listLogFiles(this.options.directory, this.prefix())).filter(
+      (file) => file.path !== this.current?.path
+    );
+    const maxFiles = Math.max(0, (this.options.maxFiles ?? DEFAULT_MAX_FILES) - 1);
+    const retention = this.options.retention;
+
+    const expired = files.filter((file, index) => {
+      if (index < files.length - maxFiles) {
+        return true;
+      }
+      // A file's entries all predate the next file's first entry
+      const endedAt = files[index + 1]?.startedAt ?? now;
+      return retention !== undefined && now - endedAt > retention;
+    });
+    await Promise.all(expired.map((file) => this.remove(file)));
+  }
+
+  private async remove(file: LogFile): Promise<void> {
+    try {
+      await fs.unlink(file.path);
+      this.logger.debug('Deleted expired log file', { file: path.basename(file.path) });
+    } catch (error) {
+      this.logger.warn('Failed to delete log file', { file: file.path, ...errorFields(error) });
+    }
+  }
+
+  /**
+   * Sequence number of the last entry written by an earlier recording
+   */
+  private async lastSequence(): Promise<number> {
+    const files = await listLogFiles(this.options.directory, this.prefix());
+    const latest = files[files.length - 1];
+    if (!latest) {
+      return 0;
+    }
+    const lines = (await fs.readFile(latest.path, 'utf8')).split('\n').reverse();
+    for (const line of lines) {
+      try {
+        const seq = JSON.parse(line).seq;
+        if (typeof seq === 'number') {
+          return seq;
+        }
+      } catch {
+        // Empty or partially written line
+      }
+    }
+    return latest.firstSeq - 1;
+  }
+
+  private prefix(): string {
+    return this.options.prefix ?? DEFAULT_FILE_PREFIX;
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
@@ -0,0 +1,61 @@
+import { readFileSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { PersistedSnapshot, SnapshotStore, isPersistedSnapshot } from '../snapshot-store';
+
+/**
+ * Keeps the last known state in a JSON file. Each save goes to a temporary
+ * file renamed over the previous one, so a crash never leaves a partial
+ * snapshot; saves made while one is written are coalesced into the latest.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  private pending: PersistedSnapshot | null = null;
+  private writing: Promise<void> | null = null;
+
+  constructor(private filePath: string) {}
+
+  /**
+   * The saved snapshot; null if the file is missing, unreadable or not a snapshot
+   */
+  public load(): PersistedSnapshot | null {
+    try {
+      const value = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      return isPersistedSnapshot(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  public save(snapshot: PersistedSnapshot): Promise<void> {
+    this.pending = snapshot;
+    if (!this.writing) {
+      this.writing = this.drain();
+    }
+    return this.writing;
+  }
+
+  /**
+   * Resolves once every snapshot saved so far is written
+   */
+  public async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.pending) {
+        const snapshot = this.pending;
+        this.pending = null;
+        await this.write(snapshot);
+      }
+    } finally {
+      this.writing = null;
+    }
+  }
+
+  private async write(snapshot: PersistedSnapshot): Promise<void> {
+    const temporary = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(snapshot));
+    await fs.rename(temporary, this.filePath);
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Durable event history and state snapshots for the Krisp Local Monitoring SDK
+ * (Node.js only)
+ */
+
+export * from './event-recorder';
+export * from './recording-reader';
+export { LogFile, listLogFiles } from './log-files';
+export { FileSnapshotStore } from './file-snapshot-store';
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_FILE_PREFIX = 'krisp-events';
+
+const EXTENSION = '.ndjson';
+
+/**
+ * A log file in a recording directory
+ */
+export interface LogFile {
+  path: string;
+  /**
+   * Receive time of the file's first entry
+   */
+  startedAt: number;
+  /**
+   * Sequence number of the file's first entry
+   */
+  firstSeq: number;
+}
+
+/**
+ * File name for a log starting with the given entry; names sort in write order
+ */
+export function logFileName(prefix: string, startedAt: number, firstSeq: number): string {
+  return `${prefix}-${String(startedAt).padStart(15, '0')}-${String(firstSeq).padStart(12, '0')}${EXTENSION}`;
+}
+
+/**
+ * Log files in `directory` written with `prefix`, oldest first. A missing
+ * directory has no files.
+ */
+export async function listLogFiles(directory: string, prefix: string = DEFAULT_FILE_PREFIX): Promise<LogFile[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const pattern = new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-(\\d+)-(\\d+)\\${EXTENSION}$`);
+  return names
+    .map((name) => {
+      const match = pattern.exec(name);
+      return match
+        ? { path: path.join(directory, name), startedAt: Number(match[1]), firstSeq: Number(match[2]) }
+        : null;
+    })
+    .filter((file): file is LogFile => file !== null)
+    .sort((a, b) => a.firstSeq - b.firstSeq || a.startedAt - b.startedAt);
+}
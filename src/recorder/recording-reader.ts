@@ -0,0 +1,72 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { RecordedEntry, RecordedEntryKind } from './event-recorder';
+import { DEFAULT_FILE_PREFIX, listLogFiles } from './log-files';
+
+export interface ReadRecordingOptions {
+  /**
+   * Only entries received at or after this time, in ms since the epoch
+   */
+  from?: number;
+  /**
+   * Only entries received at or before this time, in ms since the epoch
+   */
+  to?: number;
+  kinds?: RecordedEntryKind[];
+  /**
+   * File name prefix the recording was written with (default: `krisp-events`)
+   */
+  prefix?: string;
+}
+
+/**
+ * Iterate the entries recorded in `directory` in sequence order. Files outside
+ * the time range are skipped without being read; malformed lines, such as one
+ * cut short by a crash, are skipped.
+ */
+export async function* readRecording(
+  directory: string,
+  options: ReadRecordingOptions = {}
+): AsyncGenerator<RecordedEntry> {
+  const { from = -Infinity, to = Infinity, kinds } = options;
+  const files = await listLogFiles(directory, options.prefix ?? DEFAULT_FILE_PREFIX);
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const next = files[index + 1];
+    if (file.startedAt > to || (next && next.startedAt < from)) {
+      continue;
+    }
+
+    const lines = createInterface({ input: createReadStream(file.path), crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        const entry = parseEntry(line);
+        if (
+          entry &&
+          entry.receivedAt >= from &&
+          entry.receivedAt <= to &&
+          (!kinds || kinds.includes(entry.kind))
+        ) {
+          yield entry;
+        }
+      }
+    } finally {
+      lines.close();
+    }
+  }
+}
+
+function parseEntry(line: string): RecordedEntry | null {
+  if (!line.trim()) {
+    return null;
+  }
+  try {
+    const entry = JSON.parse(line);
+    return typeof entry?.seq === 'number' && typeof entry.receivedAt === 'number' && typeof entry.kind === 'string'
+      ? entry
+      : null;
+  } catch {
+    return null;
+  }
+}
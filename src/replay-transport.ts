@@ -0,0 +1,278 @@
+import { Transport, WireSocket } from './transport';
+import { WireFrame } from './wire-capture';
+
+type Handler = (...args: any[]) => void;
+
+export interface ReplayOptions {
+  /**
+   * Playback speed relative to the capture: 1 is real time, 10 ten times
+   * faster, `Infinity` without delays (default: 1)
+   */
+  speed?: number;
+  /**
+   * Deliver frames only when `step()` is called (default: false)
+   */
+  stepwise?: boolean;
+}
+
+/**
+ * An event the SDK sent during the replay
+ */
+export interface ReplaySentEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Socket fed from a capture instead of the network
+ */
+class ReplaySocket implements WireSocket {
+  public connected = false;
+  /**
+   * Set once connected; a closed socket is never reconnected
+   */
+  public opened = false;
+  private handlers: Map<string, Set<Handler>> = new Map();
+  private anyHandlers: Set<Handler> = new Set();
+
+  constructor(
+    private onEmit: (event: string, data: unknown, callback?: Handler) => void,
+    private onClose: (socket: ReplaySocket) => void
+  ) {}
+
+  public on(event: string, handler: Handler): this {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return this;
+  }
+
+  public off(event: string, handler?: Handler): this {
+    if (handler) {
+      this.handlers.get(event)?.delete(handler);
+    } else {
+      this.handlers.delete(event);
+    }
+    return this;
+  }
+
+  public onAny(handler: Handler): this {
+    this.anyHandlers.add(handler);
+    return this;
+  }
+
+  public emit(event: string, data?: unknown, callback?: Handler): this {
+    this.onEmit(event, data, callback);
+    return this;
+  }
+
+  public close(): this {
+    this.connected = false;
+    this.onClose(this);
+    return this;
+  }
+
+  public removeAllListeners(): this {
+    this.handlers.clear();
+    this.anyHandlers.clear();
+    return this;
+  }
+
+  /**
+   * Dispatch like socket.io-client: catch-all handlers first, then the event's
+   */
+  public receive(event: string, ...args: unknown[]): void {
+    if (event !== 'connect' && event !== 'disconnect') {
+      Array.from(this.anyHandlers).forEach((handler) => handler(event, ...args));
+    }
+    Array.from(this.handlers.get(event) ?? []).forEach((handler) => handler(...args));
+  }
+}
+
+/**
+ * Replays a `WireCapture` through the SDK: pass `transport` as the SDK's
+ * `transport` option and the captured server messages, acknowledgements and
+ * disconnects flow through the regular validation, state and event pipeline.
+ *
+ * Acknowledgements are matched to the SDK's requests by event name in order,
+ * so the SDK's own requests need not line up exactly with the capture.
+ */
+export class ReplayTransport {
+  private frames: WireFrame[];
+  private position = 0;
+  private socket: ReplaySocket | null = null;
+  private pendingAcks: Map<string, Handler[]> = new Map();
+  private unclaimedAcks: Map<string, unknown[]> = new Map();
+  private sent: ReplaySentEvent[] = [];
+  private socketWaiters: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private playing = false;
+  private stopped = false;
+  private finishedWaiters: Array<() => void> = [];
+
+  constructor(frames: WireFrame[], private options: ReplayOptions = {}) {
+    // Only what the server sent is replayed; the SDK produces its own outbound traffic
+    this.frames = frames.filter((frame) => frame.direction === 'in').sort((a, b) => a.seq - b.seq);
+  }
+
+  /**
+   * Pass as the SDK's `transport` option. Playback starts with the first socket
+   * unless `stepwise` is set.
+   */
+  public readonly transport: Transport = () => {
+    const socket = new ReplaySocket(
+      (event, data, callback) => this.handleEmit(event, data, callback),
+      (closed) => {
+        if (this.socket === closed) {
+          this.socket = null;
+        }
+      }
+    );
+    this.socket = socket;
+    const waiters = this.socketWaiters;
+    this.socketWaiters = [];
+    waiters.forEach((resolve) => resolve());
+
+    if (!this.options.stepwise && !this.playing && !this.stopped) {
+      this.playing = true;
+      this.scheduleNext();
+    }
+    return socket;
+  };
+
+  /**
+   * Deliver the next frame, then let the SDK react to it. Resolves with the
+   * frame, or null once the capture is exhausted.
+   */
+  public async step(): Promise<WireFrame | null> {
+    const frame = await this.deliverNext();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return frame;
+  }
+
+  /**
+   * Resolves once every frame has been delivered
+   */
+  public finished(): Promise<void> {
+    if (this.remaining() === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.finishedWaiters.push(resolve));
+  }
+
+  public remaining(): number {
+    return this.frames.length - this.position;
+  }
+
+  /**
+   * Everything the SDK sent during the replay, in order
+   */
+  public getSent(): ReplaySentEvent[] {
+    return [...this.sent];
+  }
+
+  /**
+   * Stop delivering frames
+   */
+  public stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const waiters = this.socketWaiters;
+    this.socketWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private scheduleNext(): void {
+    const frame = this.frames[this.position];
+    if (!frame || this.stopped) {
+      this.playing = false;
+      return;
+    }
+    const previous = this.frames[this.position - 1];
+    const speed = this.options.speed ?? 1;
+    const delay = previous && Number.isFinite(speed) && speed > 0 ? (frame.offset - previous.offset) / speed : 0;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.deliverNext().then(() => this.scheduleNext());
+    }, Math.max(0, delay));
+  }
+
+  private async deliverNext(): Promise<WireFrame | null> {
+    const frame = this.frames[this.position];
+    if (!frame) {
+      return null;
+    }
+
+    // A connect needs a fresh socket, e.g. while the SDK waits to reconnect;
+    // everything else needs the connected one
+    while (frame.type === 'connect' ? !this.socket || this.socket.opened : !this.socket?.connected) {
+      await new Promise<void>((resolve) => this.socketWaiters.push(resolve));
+      if (this.stopped) {
+        return null;
+      }
+    }
+
+    this.position++;
+    this.deliver(frame, this.socket!);
+    if (this.remaining() === 0) {
+      const waiters = this.finishedWaiters;
+      this.finishedWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+    return frame;
+  }
+
+  private deliver(frame: WireFrame, socket: ReplaySocket): void {
+    switch (frame.type) {
+      case 'connect':
+        socket.connected = true;
+        socket.opened = true;
+        socket.receive('connect');
+        break;
+      case 'disconnect':
+        socket.connected = false;
+        this.pendingAcks.clear();
+        socket.receive('disconnect', frame.reason ?? 'transport close');
+        break;
+      case 'event':
+        socket.receive(frame.event!, frame.data);
+        break;
+      case 'ack': {
+        const callback = this.pendingAcks.get(frame.event!)?.shift();
+        if (callback) {
+          callback(frame.data);
+        } else {
+          // The SDK has not sent this request yet; answer it when it does
+          this.queue(this.unclaimedAcks, frame.event!, frame.data);
+        }
+        break;
+      }
+    }
+  }
+
+  private handleEmit(event: string, data: unknown, callback?: Handler): void {
+    this.sent.push({ event, data });
+    if (!callback) {
+      return;
+    }
+    const unclaimed = this.unclaimedAcks.get(event);
+    if (unclaimed && unclaimed.length > 0) {
+      const response = unclaimed.shift();
+      setTimeout(() => callback(response), 0);
+    } else {
+      this.queue(this.pendingAcks, event, callback);
+    }
+  }
+
+  private queue<T>(map: Map<string, T[]>, key: string, value: T): void {
+    if (!map.has(key)) {
+      map.set(key, []);
+    }
+    map.get(key)!.push(value);
+  }
+}
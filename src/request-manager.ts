@@ -0,0 +1,287 @@
+import { ConnectionManager } from './connection-manager';
+import { ErrorCode, KrispRequestError, RequestFailureReason } from './errors';
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+export interface RequestOptions {
+  /**
+   * Timeout for this call in ms (default: `requestTimeout` option, 5000)
+   */
+  timeout?: number;
+  /**
+   * Cancels this call when aborted
+   */
+  signal?: AbortSignal;
+}
+
+interface PendingCall {
+  request: string;
+  reject: (error: KrispRequestError) => void;
+}
+
+interface SharedFetch<T> {
+  callers: number;
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Typed request/response layer on top of `ConnectionManager`.
+ *
+ * Every call gets its own timeout and `AbortSignal` handling. State requests for
+ * the same topic that overlap share one wire request, so concurrent callers all
+ * receive the same reply instead of racing for the next state message.
+ */
+export class RequestManager {
+  private pendingCalls: Set<PendingCall> = new Set();
+  private sharedFetches: Map<string, SharedFetch<any>> = new Map();
+  private supportedRequests: Set<string> | null = null;
+
+  constructor(
+    private connectionManager: ConnectionManager,
+    private defaultTimeout: number = DEFAULT_REQUEST_TIMEOUT,
+    /**
+     * Throws when a state message does not match its schema
+     */
+    private validate: (message: string, data: unknown) => unknown = () => {}
+  ) {}
+
+  /**
+   * Send a request and resolve with its acknowledgement
+   */
+  public request<T = any>(request: string, data: any = {}, options: RequestOptions = {}): Promise<T> {
+    return this.track(request, options, (resolve, reject) => {
+      this.connectionManager.emit(request, data, (response: any) => {
+        if (response?.success) {
+          resolve(response);
+        } else {
+          reject(this.rejectedError(request, response));
+        }
+      });
+      return () => {};
+    });
+  }
+
+  /**
+   * Request a state snapshot. The state arrives as a separate `message`; `getCached`
+   * returns the normalized state once it has been processed.
+   */
+  public fetchState<T>(
+    request: string,
+    message: string,
+    getCached: () => T | null,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.track<T>(request, options, (resolve, reject) => {
+      const shared =
+        (this.sharedFetches.get(request) as SharedFetch<T> | undefined) ??
+        this.startSharedFetch(request, message, getCached);
+      shared.callers++;
+      shared.promise.then(resolve, reject);
+      return () => {
+        shared.callers--;
+        if (shared.callers === 0) {
+          shared.cancel();
+        }
+      };
+    });
+  }
+
+  /**
+   * Requests the server answers, as learned from the handshake; others are
+   * rejected with `UNSUPPORTED_OPERATION` without being sent. `null` allows all.
+   */
+  public setSupportedRequests(requests: string[] | null): void {
+    this.supportedRequests = requests ? new Set(requests) : null;
+  }
+
+  /**
+   * Reject every pending call, e.g. when the connection is lost
+   */
+  public cancelAll(reason: RequestFailureReason = 'disconnected'): void {
+    Array.from(this.pendingCalls).forEach((call) => {
+      call.reject(
+        new KrispRequestError(
+          ErrorCode.CONNECTION_REFUSED,
+          call.request,
+          reason,
+          `Request '${call.request}' failed: connection lost`
+        )
+      );
+    });
+  }
+
+  private startSharedFetch<T>(
+    request: string,
+    message: string,
+    getCached: () => T | null
+  ): SharedFetch<T> {
+    const shared = { callers: 0, cancel: () => {} } as SharedFetch<T>;
+    this.sharedFetches.set(request, shared);
+
+    shared.promise = new Promise<T>((resolve, reject) => {
+      let received = false;
+
+      const handler = (data: any) => {
+        received = true;
+        cleanup();
+        try {
+          this.validate(message, data);
+        } catch (error) {
+          reject(
+            new KrispRequestError(
+              ErrorCode.INVALID_MESSAGE,
+              request,
+              'invalid_response',
+              `Request '${request}' received an invalid '${message}' message`,
+              error as Error
+            )
+          );
+          return;
+        }
+        resolve(getCached() ?? data);
+      };
+
+      const cleanup = () => {
+        this.connectionManager.off(message, handler);
+        if (this.sharedFetches.get(request) === shared) {
+          this.sharedFetches.delete(request);
+        }
+      };
+
+      shared.cancel = cleanup;
+      this.connectionManager.on(message, handler);
+
+      try {
+        this.connectionManager.emit(request, {}, (response: any) => {
+          if (received) {
+            return;
+          }
+          if (!response?.success) {
+            cleanup();
+            reject(this.rejectedError(request, response));
+            return;
+          }
+          // Server acknowledged without pushing the state; fall back to the cache
+          const cached = getCached();
+          if (cached) {
+            cleanup();
+            resolve(cached);
+          }
+        });
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+    // Callers attach their own handlers; avoid unhandled rejections once all have left
+    shared.promise.catch(() => {});
+
+    return shared;
+  }
+
+  private track<T>(
+    request: string,
+    options: RequestOptions,
+    start: (resolve: (value: T) => void, reject: (error: any) => void) => () => void
+  ): Promise<T> {
+    if (!this.connectionManager.isConnected()) {
+      return Promise.reject(
+        new KrispRequestError(
+          ErrorCode.CONNECTION_REFUSED,
+          request,
+          'not_connected',
+          `Request '${request}' failed: not connected to server`
+        )
+      );
+    }
+
+    if (this.supportedRequests && !this.supportedRequests.has(request)) {
+      return Promise.reject(
+        new KrispRequestError(
+          ErrorCode.UNSUPPORTED_OPERATION,
+          request,
+          'unsupported',
+          `Request '${request}' is not supported by the server`
+        )
+      );
+    }
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(this.abortedError(request, signal));
+    }
+
+    const timeout = options.timeout ?? this.defaultTimeout;
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let release = () => {};
+
+      const settle = (fn: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingCalls.delete(call);
+        release();
+        fn();
+      };
+
+      const call: PendingCall = {
+        request,
+        reject: (error) => settle(() => reject(error)),
+      };
+
+      const onAbort = () => call.reject(this.abortedError(request, signal!));
+
+      const timer = setTimeout(() => {
+        call.reject(
+          new KrispRequestError(
+            ErrorCode.CONNECTION_TIMEOUT,
+            request,
+            'timeout',
+            `Request '${request}' timed out after ${timeout}ms`
+          )
+        );
+      }, timeout);
+
+      this.pendingCalls.add(call);
+      signal?.addEventListener('abort', onAbort);
+
+      try {
+        release = start(
+          (value) => settle(() => resolve(value)),
+          (error) => settle(() => reject(error))
+        );
+      } catch (error) {
+        settle(() => reject(error));
+      }
+    });
+  }
+
+  private rejectedError(request: string, response: any): KrispRequestError {
+    const detail = response?.error?.message ?? response?.message;
+    return new KrispRequestError(
+      ErrorCode.UNKNOWN_ERROR,
+      request,
+      'rejected',
+      `Request '${request}' was rejected by the server${detail ? `: ${detail}` : ''}`,
+      undefined,
+      response
+    );
+  }
+
+  private abortedError(request: string, signal: AbortSignal): KrispRequestError {
+    const cause = signal.reason instanceof Error ? signal.reason : undefined;
+    return new KrispRequestError(
+      ErrorCode.REQUEST_ABORTED,
+      request,
+      'aborted',
+      `Request '${request}' was aborted`,
+      cause
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { SubscriptionTopic } from './types';
+import { TopicName } from './topic-registry';
+
+/**
+ * Protocol version spoken by this SDK, sent in the connection query and the handshake
+ */
+export const PROTOCOL_VERSION = '1.0.0';
+
+/**
+ * Handshake request answered with the server's `ServerInfo`
+ */
+export const SERVER_INFO_REQUEST = 'get_server_info';
+
+/**
+ * Batched request answered with the state of every requested topic, as
+ * `{ success: true, states: { [topic]: state } }`. Servers advertise it in the
+ * handshake; older ones are asked topic by topic.
+ */
+export const ALL_STATES_REQUEST = 'get_all_states';
+
+export const KNOWN_TOPICS: SubscriptionTopic[] = ['devices', 'nc', 'ac', 'in_call'];
+
+export const KNOWN_REQUESTS: string[] = [
+  'subscribe',
+  'unsubscribe',
+  'get_device_state',
+  'get_nc_state',
+  'get_ac_state',
+  'get_in_call_state',
+  'ping',
+];
+
+/**
+ * What the connected Krisp Desktop speaks, learned during the handshake
+ */
+export interface ServerInfo {
+  protocolVersion: string;
+  /**
+   * Topics the server can subscribe to, including ones no topic is registered for
+   */
+  topics: TopicName[];
+  /**
+   * Requests the server answers
+   */
+  requests: string[];
+  /**
+   * False when the server predates the handshake; `topics` and `requests` are
+   * then assumed to be everything protocol 1.0.0 defines
+   */
+  negotiated: boolean;
+}
+
+/**
+ * Capabilities assumed for servers that do not answer the handshake
+ */
+export function legacyServerInfo(): ServerInfo {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    topics: [...KNOWN_TOPICS],
+    requests: [...KNOWN_REQUESTS],
+    negotiated: false,
+  };
+}
+
+/**
+ * Read a handshake acknowledgement; returns null if it is malformed
+ */
+export function parseServerInfo(response: any): ServerInfo | null {
+  if (
+    typeof response?.protocolVersion !== 'string' ||
+    !Array.isArray(response.topics) ||
+    !Array.isArray(response.requests)
+  ) {
+    return null;
+  }
+
+  return {
+    protocolVersion: response.protocolVersion,
+    topics: response.topics.filter((topic: unknown) => typeof topic === 'string'),
+    requests: response.requests.filter((request: unknown) => typeof request === 'string'),
+    negotiated: true,
+  };
+}
+
+/**
+ * Versions are compatible when their major versions match
+ */
+export function isCompatibleVersion(serverVersion: string, clientVersion: string = PROTOCOL_VERSION): boolean {
+  return serverVersion.split('.')[0] === clientVersion.split('.')[0];
+}
@@ -0,0 +1,68 @@
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Last known state of one topic as persisted
+ */
+export interface PersistedTopicState {
+  state: unknown;
+  /**
+   * When the SDK received the state, in ms since the epoch
+   */
+  receivedAt: number;
+}
+
+/**
+ * Everything a `SnapshotStore` saves: the latest state of every topic
+ */
+export interface PersistedSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  /**
+   * When the snapshot was taken, in ms since the epoch
+   */
+  savedAt: number;
+  topics: { [topic: string]: PersistedTopicState };
+}
+
+/**
+ * Keeps the last known state across restarts. The SDK loads it once when
+ * created and saves after every state change; errors are logged, never thrown.
+ */
+export interface SnapshotStore {
+  /**
+   * The last saved snapshot, or null if there is none
+   */
+  load(): PersistedSnapshot | null | Promise<PersistedSnapshot | null>;
+  save(snapshot: PersistedSnapshot): void | Promise<void>;
+}
+
+/**
+ * Store for the `snapshotStore` option: a path stands for a `FileSnapshotStore`,
+ * imported on first use so `fs` stays out of the main entry point
+ */
+export function resolveSnapshotStore(store: SnapshotStore | string | undefined): SnapshotStore | undefined {
+  if (typeof store !== 'string') {
+    return store;
+  }
+  let fileStore: Promise<SnapshotStore> | null = null;
+  const open = () => {
+    fileStore = fileStore ?? import('./recorder/file-snapshot-store').then(({ FileSnapshotStore }) => new FileSnapshotStore(store));
+    return fileStore;
+  };
+  return {
+    load: async () => (await open()).load(),
+    save: async (snapshot) => (await open()).save(snapshot),
+  };
+}
+
+/**
+ * Whether `value` looks like a snapshot this SDK version saved
+ */
+export function isPersistedSnapshot(value: unknown): value is PersistedSnapshot {
+  const snapshot = value as PersistedSnapshot | null;
+  return (
+    snapshot?.version === SNAPSHOT_VERSION &&
+    typeof snapshot.savedAt === 'number' &&
+    snapshot.topics !== null &&
+    typeof snapshot.topics === 'object'
+  );
+}
@@ -0,0 +1,53 @@
+import { AudioDeviceType } from './types';
+import { StateChange } from './events';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Structural equality that ignores key order; a missing key equals `undefined`
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((key) => isDeepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Leaf fields that differ between two states, sorted by path. Objects are
+ * compared field by field; any other value, including arrays and a field
+ * switching between `null` and an object, is reported as one change.
+ */
+export function diffState(previous: unknown, current: unknown, path = ''): StateChange[] {
+  if (isDeepEqual(previous, current)) {
+    return [];
+  }
+  if (isPlainObject(previous) && isPlainObject(current)) {
+    const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)])).sort();
+    return keys.flatMap((key) => diffState(previous[key], current[key], joinPath(path, key)));
+  }
+  return [{ path, previous, current }];
+}
+
+/**
+ * Diff of a microphone/speaker pair, with paths starting at the direction
+ * name, e.g. `microphone.physicalDeviceInfo.isMuted` or `speaker.enabled`
+ */
+export function diffDevicePair<T extends { 0: unknown; 1: unknown }>(previous: T | null, current: T): StateChange[] {
+  return [AudioDeviceType.microphone, AudioDeviceType.speaker].flatMap((direction) =>
+    diffState(previous?.[direction], current[direction], AudioDeviceType[direction])
+  );
+}
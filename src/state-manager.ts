@@ -1,220 +1,447 @@
-import { DeviceState, NcState, AcState, InCallState, ServerToClientMessages } from './types';
-import { SDKEvent, EventHandler } from './events';
+import { DeviceState, NcState, AcState, InCallState } from './types';
+import { SDKEvent } from './events';
+import { SDKEventEmitter } from './event-emitter';
+import { ErrorCode, KrispSDKError } from './errors';
+import { ValidationMode, validateMessage, invalidMessageError } from './message-schema';
+import { TopicRegistry, TopicName, BuiltInTopicStates } from './topic-registry';
+import { Logger, noopLogger, errorFields } from './logger';
+import { isDeepEqual, diffState } from './state-diff';
+import { deriveDeviceEvents } from './device-events';
+import { StateTimeline, TimelineOptions, TimeInterval } from './state-timeline';
+import { ClockSkewEstimator, TopicFreshness, latestUpdatedAt, orderByUpdatedAt } from './state-ordering';
+import { SnapshotStore, PersistedSnapshot, PersistedTopicState, SNAPSHOT_VERSION } from './snapshot-store';
 
-export class StateManager {
-  private deviceState: DeviceState | null = null;
-  private ncState: NcState | null = null;
-  private acState: AcState | null = null;
-  private inCallState: InCallState | null = null;
+export interface StateManagerOptions {
+  validation?: ValidationMode;
+  logger?: Logger;
+  timeline?: TimelineOptions;
+  /**
+   * A topic not received for longer than this, in ms, is reported stale
+   * (default: only topics never received are)
+   */
+  staleAfter?: number;
+  /**
+   * Where the last known state is loaded from on construction and saved to on
+   * every change
+   */
+  snapshotStore?: SnapshotStore;
+  /**
+   * Whether the server pushes changes of `topic` as they happen, i.e. it is
+   * subscribed; only such changes are used to estimate clock skew
+   */
+  isPushed?: (topic: string) => boolean;
+  now?: () => number;
+}
 
-  private eventHandlers: Map<SDKEvent, Set<EventHandler>> = new Map();
+/**
+ * Caches the latest validated state of every registered topic and emits
+ * change events
+ */
+export class StateManager {
+  private states: Map<string, unknown> = new Map();
+  private timeline: StateTimeline;
+  private receivedAt: Map<string, number> = new Map();
+  private messageCounts: Map<string, number> = new Map();
+  /**
+   * Topics whose state was loaded from the snapshot store and not received live yet
+   */
+  private hydrated: Set<string> = new Set();
+  private hydration: Promise<void> = Promise.resolve();
+  // Set while an asynchronous load is in flight; saving then would overwrite
+  // the stored snapshot with only the states received so far
+  private loading = false;
+  private saveAfterLoad = false;
+  /**
+   * Topics received on the current connection
+   */
+  private liveTopics: Set<string> = new Set();
+  private clockSkew = new ClockSkewEstimator();
 
-  constructor() {
-    // Initialize event handler maps
-    Object.values(SDKEvent).forEach((event) => {
-      this.eventHandlers.set(event, new Set());
-    });
+  constructor(
+    private events: SDKEventEmitter,
+    private topics: TopicRegistry = new TopicRegistry(),
+    private options: StateManagerOptions = {}
+  ) {
+    this.timeline = new StateTimeline(options.timeline, options.now);
+    this.hydrate();
   }
 
-  public on(event: SDKEvent, handler: EventHandler): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      handlers.add(handler);
+  /**
+   * Validate a server message and apply it. Throws `KrispValidationError` when
+   * the payload does not match its schema; the stored state is left unchanged.
+   * Messages for unregistered topics are ignored.
+   */
+  public handleMessage(event: string, data: any): void {
+    switch (event) {
+      case 'error':
+        this.events.emit(SDKEvent.ERROR, {
+          code: ErrorCode.UNKNOWN_ERROR,
+          message: this.validate('error', data).message || 'Server error',
+        });
+        return;
+      case 'pong':
+        // No-op, ping/pong is handled by connection manager
+        return;
+    }
+
+    const definition = this.topics.getByMessage(event);
+    if (definition) {
+      this.receive(definition.topic, this.validate(event, data));
     }
   }
 
-  public off(event: SDKEvent, handler?: EventHandler): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      if (handler) {
-        handlers.delete(handler);
-      } else {
-        handlers.clear();
+  /**
+   * Validate several state messages and apply them together; if any is
+   * invalid, none is applied
+   */
+  public handleMessages(messages: Array<{ event: string; data: unknown }>): void {
+    messages
+      .map(({ event, data }) => ({ definition: this.topics.getByMessage(event), value: this.validate(event, data) }))
+      .forEach(({ definition, value }) => {
+        if (definition) {
+          this.receive(definition.topic, value);
+        }
+      });
+  }
+
+  /**
+   * Check a payload against the schema of its message and return it normalized
+   */
+  public validate(event: 'error', data: unknown): { code: string; message: string };
+  public validate(event: string, data: unknown): any;
+  public validate(event: string, data: unknown): any {
+    if (event === 'error') {
+      const { value, repairs } = validateMessage('error', data, this.options.validation);
+      if (repairs.length > 0) {
+        (this.options.logger ?? noopLogger).debug('Repaired server message', { message: event, repairs });
       }
+      return value;
     }
-  }
 
-  public handleMessage(event: keyof ServerToClientMessages, data: any): void {
-    switch (event) {
-      case 'device_state':
-        this.updateDeviceState(data);
-        break;
-      case 'nc_state':
-        this.updateNcState(data);
-        break;
-      case 'ac_state':
-        this.updateAcState(data);
-        break;
-      case 'in_call_state':
-        this.updateInCallState(data);
-        break;
-      case 'error':
-        this.emitInternal(SDKEvent.ERROR, data);
-        break;
-      case 'pong':
-        // No-op, ping/pong is handled by connection manager
-        break;
+    const definition = this.topics.getByMessage(event);
+    if (!definition) {
+      return data;
+    }
+    try {
+      return definition.validate(data, this.options.validation ?? 'strict');
+    } catch (error) {
+      throw error instanceof KrispSDKError ? error : invalidMessageError(event, data, error);
     }
   }
 
-  public getDeviceState(): DeviceState | null {
-    return this.deviceState;
+  public getState<K extends keyof BuiltInTopicStates>(topic: K): BuiltInTopicStates[K] | null;
+  public getState<T = unknown>(topic: TopicName): T | null;
+  public getState(topic: TopicName): unknown {
+    return this.states.get(topic) ?? null;
   }
 
-  public getNcState(): NcState | null {
-    return this.ncState;
+  /**
+   * Cached state of every registered topic that has received one
+   */
+  public getStates(): { [topic: string]: unknown } {
+    return Object.fromEntries(this.states);
   }
 
-  public getAcState(): AcState | null {
-    return this.acState;
+  /**
+   * State of `topic` received on this run, or null while the only one known
+   * was loaded from the snapshot store
+   */
+  public getLiveState<K extends keyof BuiltInTopicStates>(topic: K): BuiltInTopicStates[K] | null;
+  public getLiveState<T = unknown>(topic: TopicName): T | null;
+  public getLiveState(topic: TopicName): unknown {
+    return this.hydrated.has(topic) ? null : this.getState(topic);
   }
 
-  public getInCallState(): InCallState | null {
-    return this.inCallState;
+  /**
+   * Like `getStates()`, leaving out states only loaded from the snapshot store
+   */
+  public getLiveStates(): { [topic: string]: unknown } {
+    return Object.fromEntries(Array.from(this.states).filter(([topic]) => !this.hydrated.has(topic)));
   }
 
   /**
-   * Emit an event (public method for external use)
+   * State of every topic at `timestamp`, or of one topic (null if unknown then)
    */
-  public emit(event: SDKEvent, data: any): void {
-    this.emitInternal(event, data);
+  public getStateAt(timestamp: number): { [topic: string]: unknown };
+  public getStateAt<K extends keyof BuiltInTopicStates>(timestamp: number, topic: K): BuiltInTopicStates[K] | null;
+  public getStateAt<T = unknown>(timestamp: number, topic: TopicName): T | null;
+  public getStateAt(timestamp: number, topic?: TopicName): unknown {
+    return topic === undefined ? this.timeline.getSnapshotAt(timestamp) : this.timeline.getStateAt(topic, timestamp);
   }
 
-  private updateDeviceState(newState: DeviceState): void {
-    const hasChanged = !this.deviceState || this.hasDeviceStateChanged(this.deviceState, newState);
-    this.deviceState = this.validateAndNormalizeDeviceState(newState);
-    if (hasChanged) {
-      this.emitInternal(SDKEvent.DEVICES_CHANGED, this.deviceState);
-    }
+  /**
+   * Contiguous time ranges within `from`..`to` during which `predicate` held
+   */
+  public getIntervals<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  public getIntervals<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  public getIntervals(
+    topic: TopicName,
+    predicate: (state: any) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[] {
+    return this.timeline.getIntervals(topic, predicate, from, to);
   }
 
-  private updateNcState(newState: NcState): void {
-    const hasChanged = !this.ncState || this.hasNcStateChanged(this.ncState, newState);
-    this.ncState = this.validateAndNormalizeNcState(newState);
-    if (hasChanged) {
-      this.emitInternal(SDKEvent.NOISE_CANCELLATION_CHANGED, this.ncState);
-    }
+  /**
+   * Total time in ms `predicate` held within `from`..`to`
+   */
+  public getDuration<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  public getDuration<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  public getDuration(topic: TopicName, predicate: (state: any) => boolean, from?: number, to?: number): number {
+    return this.timeline.getDuration(topic, predicate, from, to);
   }
 
-  private updateAcState(newState: AcState): void {
-    const hasChanged = !this.acState || this.hasAcStateChanged(this.acState, newState);
-    this.acState = this.validateAndNormalizeAcState(newState);
-    if (hasChanged) {
-      this.emitInternal(SDKEvent.ACCENT_CONVERSION_CHANGED, this.acState);
-    }
+  /**
+   * Number of valid state messages received for `topic`, including ones
+   * dropped as out of order
+   */
+  public getMessageCount(topic: TopicName): number {
+    return this.messageCounts.get(topic) ?? 0;
   }
 
-  private updateInCallState(newState: InCallState): void {
-    const hasChanged = !this.inCallState || this.hasInCallStateChanged(this.inCallState, newState);
-    this.inCallState = this.validateAndNormalizeInCallState(newState);
-    if (hasChanged) {
-      this.emitInternal(SDKEvent.IN_CALL_CHANGED, this.inCallState);
-    }
+  /**
+   * Estimated server clock minus client clock in ms, or null before the first
+   * sample: a server timestamp, or a change pushed for a subscribed topic
+   */
+  public getClockSkew(): number | null {
+    return this.clockSkew.getSkew();
   }
 
-  private hasInCallStateChanged(oldState: InCallState, newState: InCallState): boolean {
-    return oldState.inCall !== newState.inCall;
+  /**
+   * Sample the clock skew from a server timestamp taken while answering a
+   * request sent at `sentAt` and answered at `receivedAt`
+   */
+  public addClockSample(serverTime: number, sentAt: number, receivedAt: number): void {
+    this.clockSkew.addSample(serverTime, (sentAt + receivedAt) / 2);
   }
 
-  private hasDeviceStateChanged(oldState: DeviceState, newState: DeviceState): boolean {
-    return (
-      JSON.stringify(oldState[0]) !== JSON.stringify(newState[0]) ||
-      JSON.stringify(oldState[1]) !== JSON.stringify(newState[1])
-    );
+  /**
+   * Mark a new connection: a state received next may have changed any time
+   * while disconnected, so it tells nothing about the server clock
+   */
+  public startConnection(): void {
+    this.liveTopics.clear();
   }
 
-  private hasNcStateChanged(oldState: NcState, newState: NcState): boolean {
-    return (
-      oldState[0].enabled !== newState[0].enabled ||
-      oldState[1].enabled !== newState[1].enabled
-    );
+  /**
+   * When `topic` was last received and updated, and whether it is stale
+   */
+  public getFreshness(topic: TopicName): TopicFreshness {
+    const now = this.now();
+    const receivedAt = this.receivedAt.get(topic) ?? null;
+    const updatedAt = latestUpdatedAt(this.states.get(topic));
+    const { staleAfter } = this.options;
+    const cached = this.hydrated.has(topic);
+    return {
+      receivedAt,
+      updatedAt,
+      age: updatedAt === null ? null : now + (this.clockSkew.getSkew() ?? 0) - updatedAt,
+      cached,
+      stale: cached || receivedAt === null || (staleAfter !== undefined && now - receivedAt > staleAfter),
+    };
   }
 
-  private hasAcStateChanged(oldState: AcState, newState: AcState): boolean {
-    return (
-      oldState[0].enabled !== newState[0].enabled ||
-      oldState[1].enabled !== newState[1].enabled
-    );
+  public getDeviceState(): DeviceState | null {
+    return this.getState('devices');
   }
 
-  private validateAndNormalizeDeviceState(state: any): DeviceState {
-    if (!state || typeof state !== 'object') {
-      throw new Error('Invalid device state: must be an object');
-    }
-
-    // Validate structure
-    if (typeof state[0] !== 'object' || typeof state[1] !== 'object') {
-      throw new Error('Invalid device state: missing microphone or speaker state');
-    }
+  public getNcState(): NcState | null {
+    return this.getState('nc');
+  }
 
-    return {
-      0: {
-        physicalDeviceInfo: state[0].physicalDeviceInfo || null,
-        updatedAt: state[0].updatedAt || Date.now(),
-      },
-      1: {
-        physicalDeviceInfo: state[1].physicalDeviceInfo || null,
-        updatedAt: state[1].updatedAt || Date.now(),
-      },
-    };
+  public getAcState(): AcState | null {
+    return this.getState('ac');
   }
 
-  private validateAndNormalizeNcState(state: any): NcState {
-    if (!state || typeof state !== 'object') {
-      throw new Error('Invalid NC state: must be an object');
-    }
+  public getInCallState(): InCallState | null {
+    return this.getState('in_call');
+  }
 
-    return {
-      0: {
-        enabled: Boolean(state[0]?.enabled),
-        updatedAt: state[0]?.updatedAt || Date.now(),
-      },
-      1: {
-        enabled: Boolean(state[1]?.enabled),
-        updatedAt: state[1]?.updatedAt || Date.now(),
-      },
-    };
+  private receive(topic: string, state: unknown): void {
+    this.messageCounts.set(topic, this.getMessageCount(topic) + 1);
+    this.updateState(topic, state);
   }
 
-  private validateAndNormalizeAcState(state: any): AcState {
-    if (!state || typeof state !== 'object') {
-      throw new Error('Invalid AC state: must be an object');
+  private updateState(topic: string, received: unknown): void {
+    const definition = this.topics.get(topic)!;
+    const previous = this.states.has(topic) ? this.states.get(topic) : null;
+    const receivedAt = this.now();
+    this.sampleClockSkew(topic, previous, received, receivedAt);
+    this.liveTopics.add(topic);
+
+    // Live data always replaces a state loaded from the snapshot store
+    const wasHydrated = this.hydrated.delete(topic);
+    let newState = received;
+    if (previous !== null && !wasHydrated) {
+      const { state, stale } = (definition.order ?? orderByUpdatedAt)(previous, received);
+      if (stale.length > 0) {
+        (this.options.logger ?? noopLogger).debug('Dropped out-of-order update', { topic, stale });
+        this.events.emit(SDKEvent.STALE_UPDATE_DROPPED, { topic, received, current: previous, stale });
+      }
+      if (state === previous) {
+        return;
+      }
+      newState = state;
     }
 
-    return {
-      0: {
-        enabled: Boolean(state[0]?.enabled),
-        updatedAt: state[0]?.updatedAt || Date.now(),
-      },
-      1: {
-        enabled: Boolean(state[1]?.enabled),
-        updatedAt: state[1]?.updatedAt || Date.now(),
-      },
-    };
+    this.receivedAt.set(topic, receivedAt);
+    const isEqual = definition.isEqual ?? isDeepEqual;
+    const hasChanged = previous === null || wasHydrated || !isEqual(previous, newState);
+    this.states.set(topic, newState);
+    if (hasChanged) {
+      this.timeline.record(topic, newState, receivedAt);
+      this.persist();
+      const change = {
+        previous,
+        current: newState,
+        changes: definition.diff ? definition.diff(previous, newState) : diffState(previous ?? {}, newState),
+      };
+      if (definition.event) {
+        this.events.emitStateChange(definition.event, change);
+      }
+      this.events.emit(SDKEvent.TOPIC_CHANGED, { topic, ...change });
+      // Transitions against a snapshot-loaded state may have happened any time
+      // since it was saved, so none are derived from it
+      if (topic === 'devices' && previous !== null && !wasHydrated) {
+        deriveDeviceEvents(previous as DeviceState, newState as DeviceState).forEach(({ event, payload }) =>
+          this.events.emit(event, payload)
+        );
+      }
+    }
   }
 
-  private validateAndNormalizeInCallState(state: any): InCallState {
-    if (!state || typeof state !== 'object') {
-      throw new Error('Invalid in-call state: must be an object');
+  /**
+   * `updatedAt` is when a state last changed, not when it was sent. Only a
+   * newer state pushed for a topic already received on this connection was
+   * sent as the change happened; anything else may have changed long ago.
+   */
+  private sampleClockSkew(topic: string, previous: unknown, received: unknown, receivedAt: number): void {
+    const serverTime = latestUpdatedAt(received);
+    const previousTime = latestUpdatedAt(previous);
+    if (
+      serverTime !== null &&
+      previousTime !== null &&
+      serverTime > previousTime &&
+      this.liveTopics.has(topic) &&
+      (this.options.isPushed?.(topic) ?? false)
+    ) {
+      this.clockSkew.addSample(serverTime, receivedAt);
     }
+  }
 
-    return {
-      inCall: Boolean(state.inCall),
-      updatedAt: state.updatedAt || Date.now(),
-    };
+  /**
+   * Resolves once the snapshot store has been loaded; right away when it loads
+   * synchronously or there is none
+   */
+  public whenHydrated(): Promise<void> {
+    return this.hydration;
   }
 
-  private emitInternal(event: SDKEvent, data: any): void {
-    const handlers = this.eventHandlers.get(event);
-    if (handlers) {
-      handlers.forEach((handler) => {
-        try {
-          handler(data);
-        } catch (error) {
-          console.error(`Error in event handler for ${event}:`, error);
+  /**
+   * Load the last known states from the snapshot store, now or once an
+   * asynchronous load resolves
+   */
+  private hydrate(): void {
+    const store = this.options.snapshotStore;
+    if (!store) {
+      return;
+    }
+    const logger = this.options.logger ?? noopLogger;
+    let loaded: ReturnType<SnapshotStore['load']>;
+    try {
+      loaded = store.load();
+    } catch (error) {
+      logger.warn('Failed to load state snapshot', errorFields(error));
+      return;
+    }
+    if (!(loaded instanceof Promise)) {
+      this.applySnapshot(loaded);
+      return;
+    }
+    this.loading = true;
+    this.hydration = loaded
+      .then(
+        (snapshot) => this.applySnapshot(snapshot),
+        (error) => logger.warn('Failed to load state snapshot', errorFields(error))
+      )
+      .finally(() => {
+        this.loading = false;
+        if (this.saveAfterLoad) {
+          this.saveAfterLoad = false;
+          this.persist();
         }
       });
+  }
+
+  /**
+   * States of topics not registered yet, failing validation, or received live
+   * while the snapshot was loading are skipped
+   */
+  private applySnapshot(snapshot: PersistedSnapshot | null): void {
+    const logger = this.options.logger ?? noopLogger;
+    Object.entries(snapshot?.topics ?? {}).forEach(([topic, entry]) => {
+      const definition = this.topics.get(topic);
+      if (!definition || this.states.has(topic) || typeof entry?.receivedAt !== 'number') {
+        return;
+      }
+      try {
+        this.states.set(topic, definition.validate(entry.state, this.options.validation ?? 'strict'));
+        this.receivedAt.set(topic, entry.receivedAt);
+        this.hydrated.add(topic);
+      } catch (error) {
+        logger.warn('Skipping invalid state in snapshot', { topic, ...errorFields(error) });
+      }
+    });
+    if (this.hydrated.size > 0) {
+      logger.debug('Hydrated state from snapshot', { topics: Array.from(this.hydrated) });
     }
   }
-}
 
+  private persist(): void {
+    const store = this.options.snapshotStore;
+    if (!store) {
+      return;
+    }
+    if (this.loading) {
+      this.saveAfterLoad = true;
+      return;
+    }
+    const topics: { [topic: string]: PersistedTopicState } = {};
+    this.states.forEach((state, topic) => {
+      topics[topic] = { state, receivedAt: this.receivedAt.get(topic)! };
+    });
+    const logger = this.options.logger ?? noopLogger;
+    try {
+      Promise.resolve(store.save({ version: SNAPSHOT_VERSION, savedAt: this.now(), topics })).catch((error) =>
+        logger.warn('Failed to save state snapshot', errorFields(error))
+      );
+    } catch (error) {
+      logger.warn('Failed to save state snapshot', errorFields(error));
+    }
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
@@ -0,0 +1,132 @@
+import { AudioDeviceType } from './types';
+
+const DEFAULT_SKEW_SAMPLES = 20;
+
+/**
+ * Outcome of ordering a received state against the cached one
+ */
+export interface OrderedUpdate<T> {
+  /**
+   * State to keep: the received one, the cached one, or a merge of both
+   */
+  state: T;
+  /**
+   * Parts of the received state that are older than the cached ones and were
+   * dropped, e.g. `microphone`; `''` stands for the whole state
+   */
+  stale: string[];
+}
+
+/**
+ * How fresh the cached state of a topic is
+ */
+export interface TopicFreshness {
+  /**
+   * When the state was last received, by the client clock; null if never
+   */
+  receivedAt: number | null;
+  /**
+   * Latest `updatedAt` of the cached state, by the server clock; null if unknown
+   */
+  updatedAt: number | null;
+  /**
+   * Time since the server last updated the state, corrected by the estimated
+   * clock skew; the clocks are assumed to agree until it is known
+   */
+  age: number | null;
+  /**
+   * Set while the state is the one loaded from the snapshot store and no live
+   * state has replaced it yet
+   */
+  cached: boolean;
+  /**
+   * Set when no live state was received yet, or none within `staleAfter`
+   */
+  stale: boolean;
+}
+
+function updatedAtOf(value: unknown): number | undefined {
+  const updatedAt = (value as { updatedAt?: unknown } | null | undefined)?.updatedAt;
+  return typeof updatedAt === 'number' ? updatedAt : undefined;
+}
+
+/**
+ * Whether `received` was stamped before `cached`; values without a stamp are
+ * never considered older
+ */
+function isOlder(received: unknown, cached: unknown): boolean {
+  const receivedAt = updatedAtOf(received);
+  const cachedAt = updatedAtOf(cached);
+  return receivedAt !== undefined && cachedAt !== undefined && receivedAt < cachedAt;
+}
+
+/**
+ * Default ordering: drop a state whose top-level `updatedAt` is older than the
+ * cached one's
+ */
+export function orderByUpdatedAt<T>(cached: T, received: T): OrderedUpdate<T> {
+  return isOlder(received, cached) ? { state: cached, stale: [''] } : { state: received, stale: [] };
+}
+
+/**
+ * Order a microphone/speaker pair direction by direction, keeping the cached
+ * side wherever the received one is older
+ */
+export function orderDevicePair<T extends { 0: unknown; 1: unknown }>(cached: T, received: T): OrderedUpdate<T> {
+  const stale = [AudioDeviceType.microphone, AudioDeviceType.speaker].filter((direction) =>
+    isOlder(received[direction], cached[direction])
+  );
+  if (stale.length === 0) {
+    return { state: received, stale: [] };
+  }
+  const names = stale.map((direction) => AudioDeviceType[direction]);
+  if (stale.length === 2) {
+    return { state: cached, stale: names };
+  }
+  const state = { ...received };
+  stale.forEach((direction) => {
+    state[direction] = cached[direction];
+  });
+  return { state, stale: names };
+}
+
+/**
+ * Newest `updatedAt` anywhere in the top two levels of a state, or null
+ */
+export function latestUpdatedAt(state: unknown): number | null {
+  const stamps = [state, ...(state && typeof state === 'object' ? Object.values(state) : [])]
+    .map(updatedAtOf)
+    .filter((stamp): stamp is number => stamp !== undefined);
+  return stamps.length > 0 ? Math.max(...stamps) : null;
+}
+
+/**
+ * Estimates how far the server clock is ahead of the client's from server
+ * timestamps taken at a known moment: the `serverTime` of a handshake or pong
+ * against the middle of the round trip, and the `updatedAt` of a change pushed
+ * as it happened against its arrival. A pushed stamp is never newer than the
+ * moment it was sent, so the largest recent sample is the closest estimate.
+ */
+export class ClockSkewEstimator {
+  private samples: number[] = [];
+
+  constructor(private maxSamples: number = DEFAULT_SKEW_SAMPLES) {}
+
+  public addSample(serverTime: number, receivedAt: number): void {
+    this.samples.push(serverTime - receivedAt);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Server time minus client time in ms, or null before the first sample
+   */
+  public getSkew(): number | null {
+    return this.samples.length > 0 ? Math.max(...this.samples) : null;
+  }
+
+  public reset(): void {
+    this.samples = [];
+  }
+}
@@ -0,0 +1,267 @@
+import { DeviceState, NcState, AcState, InCallState, SubscriptionTopic } from './types';
+import { SDKEvent, ConnectionState, Unsubscribe } from './events';
+import { SDKEventEmitter } from './event-emitter';
+import { StateManager } from './state-manager';
+import { ErrorCode, KrispSDKError } from './errors';
+
+const DEFAULT_BUFFER_SIZE = 100;
+
+/**
+ * Key RxJS and other Observable libraries look up for interop
+ */
+const OBSERVABLE_SYMBOL: symbol | string =
+  (typeof Symbol === 'function' && (Symbol as typeof Symbol & { observable?: symbol }).observable) || '@@observable';
+
+export type StreamTopic = SubscriptionTopic | 'connection';
+
+/**
+ * Value type yielded by each stream topic
+ */
+export interface StreamTopicMap {
+  devices: DeviceState;
+  nc: NcState;
+  ac: AcState;
+  in_call: InCallState;
+  connection: ConnectionState;
+}
+
+/**
+ * What to do when an async iterator falls behind:
+ * - `drop-oldest`: discard the oldest buffered value (bufferSize 1 always yields the latest)
+ * - `drop-newest`: discard the incoming value
+ * - `error`: end the iteration with a `BUFFER_OVERFLOW` error
+ */
+export type StreamOverflowStrategy = 'drop-oldest' | 'drop-newest' | 'error';
+
+export interface StreamOptions {
+  /**
+   * Values buffered per iterator while the consumer is busy (default: 100)
+   */
+  bufferSize?: number;
+  overflow?: StreamOverflowStrategy;
+  /**
+   * Yield the current snapshot before the first change (default: true)
+   */
+  emitCurrent?: boolean;
+  /**
+   * Ends the stream when aborted
+   */
+  signal?: AbortSignal;
+}
+
+export interface StreamObserver<T> {
+  next?: (value: T) => void;
+  error?: (error: any) => void;
+  complete?: () => void;
+}
+
+export interface StreamSubscription {
+  closed: boolean;
+  unsubscribe(): void;
+}
+
+/**
+ * Where a stream reads its current value and changes from
+ */
+export interface StreamSource<T> {
+  getCurrent(): T | null;
+  listen(handler: (value: T) => void): Unsubscribe;
+}
+
+/**
+ * Stream of state snapshots: the current value first, then every change.
+ *
+ * Usable with `for await`, and as a minimal Observable (`subscribe` and
+ * `Symbol.observable`) so RxJS `from()` accepts it directly.
+ */
+export class StateStream<T> implements AsyncIterable<T> {
+  constructor(private source: StreamSource<T>, private options: StreamOptions = {}) {}
+
+  public [OBSERVABLE_SYMBOL](): StateStream<T> {
+    return this;
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    const bufferSize = Math.max(1, this.options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    const overflow = this.options.overflow ?? 'drop-oldest';
+    const signal = this.options.signal;
+
+    const buffer: T[] = [];
+    let waiting: { resolve: (result: IteratorResult<T>) => void; reject: (error: any) => void } | null =
+      null;
+    let finished = false;
+    let failure: Error | null = null;
+    let unsubscribe: Unsubscribe = () => {};
+
+    const finish = (error?: Error) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      failure = error ?? null;
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+
+      if (waiting) {
+        const pending = waiting;
+        waiting = null;
+        if (error) {
+          pending.reject(error);
+        } else {
+          pending.resolve({ value: undefined, done: true });
+        }
+      }
+    };
+
+    const onAbort = () => finish();
+
+    const push = (value: T) => {
+      if (finished) {
+        return;
+      }
+      if (waiting) {
+        const pending = waiting;
+        waiting = null;
+        pending.resolve({ value, done: false });
+        return;
+      }
+      if (buffer.length < bufferSize) {
+        buffer.push(value);
+        return;
+      }
+
+      switch (overflow) {
+        case 'drop-oldest':
+          buffer.shift();
+          buffer.push(value);
+          break;
+        case 'drop-newest':
+          break;
+        case 'error':
+          finish(
+            new KrispSDKError(
+              ErrorCode.BUFFER_OVERFLOW,
+              `Stream buffer overflow: consumer fell more than ${bufferSize} values behind`
+            )
+          );
+          break;
+      }
+    };
+
+    if (signal?.aborted) {
+      finished = true;
+    } else {
+      const current = this.options.emitCurrent !== false ? this.source.getCurrent() : null;
+      if (current !== null) {
+        push(current);
+      }
+      unsubscribe = this.source.listen(push);
+      signal?.addEventListener('abort', onAbort);
+    }
+
+    return {
+      next: (): Promise<IteratorResult<T>> => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (failure) {
+          const error = failure;
+          failure = null;
+          return Promise.reject(error);
+        }
+        if (finished) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          waiting = { resolve, reject };
+        });
+      },
+      return: (): Promise<IteratorResult<T>> => {
+        buffer.length = 0;
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  /**
+   * Observable-compatible subscription; values are delivered synchronously
+   */
+  public subscribe(observerOrNext?: StreamObserver<T> | ((value: T) => void)): StreamSubscription {
+    const observer: StreamObserver<T> =
+      typeof observerOrNext === 'function' ? { next: observerOrNext } : observerOrNext ?? {};
+    const signal = this.options.signal;
+
+    let unsubscribe: Unsubscribe = () => {};
+    const subscription: StreamSubscription = {
+      closed: false,
+      unsubscribe: () => {
+        if (subscription.closed) {
+          return;
+        }
+        subscription.closed = true;
+        unsubscribe();
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+
+    const onAbort = () => {
+      subscription.unsubscribe();
+      observer.complete?.();
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return subscription;
+    }
+
+    const next = (value: T) => {
+      if (!subscription.closed) {
+        observer.next?.(value);
+      }
+    };
+
+    const current = this.options.emitCurrent !== false ? this.source.getCurrent() : null;
+    if (current !== null) {
+      next(current);
+    }
+    unsubscribe = this.source.listen(next);
+    signal?.addEventListener('abort', onAbort);
+
+    return subscription;
+  }
+}
+
+/**
+ * Build the stream source for a topic from the SDK's state and events
+ */
+export function createStreamSource<K extends StreamTopic>(
+  topic: K,
+  events: SDKEventEmitter,
+  stateManager: StateManager,
+  getConnectionState: () => ConnectionState
+): StreamSource<StreamTopicMap[K]> {
+  const sources: { [P in StreamTopic]: StreamSource<StreamTopicMap[P]> } = {
+    devices: {
+      getCurrent: () => stateManager.getLiveState('devices'),
+      listen: (handler) => events.on(SDKEvent.DEVICES_CHANGED, ({ current }) => handler(current)),
+    },
+    nc: {
+      getCurrent: () => stateManager.getLiveState('nc'),
+      listen: (handler) => events.on(SDKEvent.NOISE_CANCELLATION_CHANGED, ({ current }) => handler(current)),
+    },
+    ac: {
+      getCurrent: () => stateManager.getLiveState('ac'),
+      listen: (handler) => events.on(SDKEvent.ACCENT_CONVERSION_CHANGED, ({ current }) => handler(current)),
+    },
+    in_call: {
+      getCurrent: () => stateManager.getLiveState('in_call'),
+      listen: (handler) => events.on(SDKEvent.IN_CALL_CHANGED, ({ current }) => handler(current)),
+    },
+    connection: {
+      getCurrent: () => getConnectionState(),
+      listen: (handler) => events.on(SDKEvent.CONNECTION_CHANGED, handler),
+    },
+  };
+  return sources[topic];
+}
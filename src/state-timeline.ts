@@ -0,0 +1,163 @@
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export interface TimelineOptions {
+  /**
+   * Snapshots kept per topic; the oldest are dropped beyond this (default: 1000)
+   */
+  maxEntries?: number;
+  /**
+   * Drop snapshots superseded more than this many ms ago (default: no limit)
+   */
+  maxAge?: number;
+}
+
+export interface TimelineEntry<T = unknown> {
+  /**
+   * When the state was accepted, in ms since the epoch
+   */
+  at: number;
+  state: T;
+}
+
+/**
+ * A time range, `start` inclusive and `end` exclusive, in ms since the epoch
+ */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Bounded history of accepted states per topic, answering what the state was
+ * at a point in time and for which intervals a condition held
+ */
+export class StateTimeline {
+  private entries: Map<string, TimelineEntry[]> = new Map();
+
+  constructor(
+    private options: TimelineOptions = {},
+    private now: () => number = Date.now
+  ) {}
+
+  public record(topic: string, state: unknown, at: number = this.now()): void {
+    if (!this.entries.has(topic)) {
+      this.entries.set(topic, []);
+    }
+    const entries = this.entries.get(topic)!;
+    // Keep entries ordered even if the clock went backwards
+    entries.push({ at: Math.max(at, entries[entries.length - 1]?.at ?? at), state });
+    this.prune(entries, at);
+  }
+
+  /**
+   * State of `topic` at `timestamp`, or null if nothing was known then
+   */
+  public getStateAt(topic: string, timestamp: number): unknown {
+    const entries = this.entries.get(topic) ?? [];
+    const index = this.indexAt(entries, timestamp);
+    return index >= 0 ? entries[index].state : null;
+  }
+
+  /**
+   * State of every topic known at `timestamp`
+   */
+  public getSnapshotAt(timestamp: number): { [topic: string]: unknown } {
+    const snapshot: { [topic: string]: unknown } = {};
+    this.entries.forEach((_entries, topic) => {
+      const state = this.getStateAt(topic, timestamp);
+      if (state !== null) {
+        snapshot[topic] = state;
+      }
+    });
+    return snapshot;
+  }
+
+  /**
+   * Contiguous ranges within `from`..`to` (default: the whole history up to
+   * now) during which `predicate` held for the state of `topic`
+   */
+  public getIntervals(
+    topic: string,
+    predicate: (state: any) => boolean,
+    from: number = -Infinity,
+    to: number = this.now()
+  ): TimeInterval[] {
+    const entries = this.entries.get(topic) ?? [];
+    const intervals: TimeInterval[] = [];
+
+    entries.forEach((entry, index) => {
+      const start = Math.max(entry.at, from);
+      const end = Math.min(entries[index + 1]?.at ?? Infinity, to);
+      if (start >= end || !predicate(entry.state)) {
+        return;
+      }
+      const last = intervals[intervals.length - 1];
+      if (last && last.end === start) {
+        last.end = end;
+      } else {
+        intervals.push({ start, end });
+      }
+    });
+    return intervals;
+  }
+
+  /**
+   * Total time in ms `predicate` held for `topic` within `from`..`to`
+   */
+  public getDuration(
+    topic: string,
+    predicate: (state: any) => boolean,
+    from?: number,
+    to?: number
+  ): number {
+    return this.getIntervals(topic, predicate, from, to).reduce(
+      (total, interval) => total + (interval.end - interval.start),
+      0
+    );
+  }
+
+  public getEntries(topic: string): TimelineEntry[] {
+    return [...(this.entries.get(topic) ?? [])];
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Index of the last entry at or before `timestamp`, -1 if there is none
+   */
+  private indexAt(entries: TimelineEntry[], timestamp: number): number {
+    let low = 0;
+    let high = entries.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (entries[middle].at <= timestamp) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+
+  private prune(entries: TimelineEntry[], now: number): void {
+    const maxEntries = Math.max(1, this.options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    if (entries.length > maxEntries) {
+      entries.splice(0, entries.length - maxEntries);
+    }
+
+    const { maxAge } = this.options;
+    if (maxAge !== undefined) {
+      // An entry is needed as long as it was still current within maxAge
+      const cutoff = now - maxAge;
+      let expired = 0;
+      while (expired < entries.length - 1 && entries[expired + 1].at <= cutoff) {
+        expired++;
+      }
+      entries.splice(0, expired);
+    }
+  }
+}
@@ -0,0 +1,907 @@
+import { IKrispLocalMonitoringSDK, KrispSDKOptions, RequestOptions, AllStates } from '../index';
+import { ConnectionStatus, PortProbeResult } from '../connection-manager';
+import {
+  ConnectionStateMachine,
+  ConnectionLifecycleState,
+  ConnectionTransition,
+  TransitionDetails,
+  isConnectingState,
+} from '../connection-state-machine';
+import { StateManager } from '../state-manager';
+import { DeviceState, NcState, AcState, InCallState } from '../types';
+import { SDKEvent, SDKEventMap, EventHandler, AnyEventHandler, Unsubscribe, ConnectionState } from '../events';
+import { SDKEventEmitter } from '../event-emitter';
+import { StateSnapshot, StateSelector, WaitForOptions, waitForState } from '../wait-for';
+import { StateStream, StreamTopic, StreamTopicMap, StreamOptions, createStreamSource } from '../state-stream';
+import { ErrorCode, KrispSDKError, KrispRequestError, KrispValidationError } from '../errors';
+import { ServerInfo, ALL_STATES_REQUEST, legacyServerInfo } from '../server-info';
+import { TopicRegistry, TopicDefinition, TopicName, BuiltInTopicStates } from '../topic-registry';
+import { CallSessionTracker, CallSession } from '../call-session-tracker';
+import { TimeInterval } from '../state-timeline';
+import { TopicFreshness } from '../state-ordering';
+import { OfflineQueue, QueuedCall } from '../offline-queue';
+import { HeartbeatMonitor } from '../heartbeat';
+import { resolveSnapshotStore } from '../snapshot-store';
+import { Clock, SystemClock } from './virtual-clock';
+import { createMockDeviceState, createMockFeatureState } from './mock-states';
+
+const DEFAULT_FAKE_PORT = 50190;
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * Methods whose outcome can be scripted on the fake
+ */
+export type FakeMethod =
+  | 'connect'
+  | 'getDevicesState'
+  | 'getNoiseCancellationState'
+  | 'getAccentConversionState'
+  | 'getInCallState'
+  | 'getState'
+  | 'getAllStates'
+  | 'subscribe'
+  | 'unsubscribe'
+  | 'ping';
+
+/**
+ * How a scripted method behaves:
+ * - `ok`: succeed after the configured latency
+ * - `fail`: reject the way the real SDK does when the server refuses
+ * - `timeout`: never answer, rejecting with `CONNECTION_TIMEOUT` after the request timeout
+ */
+export type FakeBehavior = 'ok' | 'fail' | 'timeout';
+
+export interface FakeKrispSDKOptions extends KrispSDKOptions {
+  /**
+   * Clock used for latency and timeouts; pass a `VirtualClock` for deterministic tests
+   */
+  clock?: Clock;
+  /**
+   * Simulated round-trip time for every request in ms (default: 0)
+   */
+  latency?: number;
+  /**
+   * Time after which unanswered requests reject in ms (default: 5000)
+   */
+  requestTimeout?: number;
+  port?: number;
+  deviceState?: DeviceState;
+  ncState?: NcState;
+  acState?: AcState;
+  inCallState?: InCallState;
+  /**
+   * Initial server-side state of custom topics, by topic name
+   */
+  topicStates?: { [topic: string]: unknown };
+  /**
+   * Capabilities the fake server advertises (default: every registered topic and its request)
+   */
+  serverInfo?: Partial<ServerInfo>;
+}
+
+export interface FakeCall {
+  method: string;
+  args: any[];
+  at: number;
+}
+
+/**
+ * In-memory implementation of `IKrispLocalMonitoringSDK` for unit tests.
+ *
+ * Server-side state is driven directly (`setNcState`, `simulateDisconnect`, ...)
+ * and flows through the real `StateManager`, so handlers receive the same
+ * `SDKEvent` payloads and `ConnectionState` transitions as with the real SDK.
+ */
+export class FakeKrispSDK implements IKrispLocalMonitoringSDK {
+  private options: FakeKrispSDKOptions;
+  private clock: Clock;
+  private stateManager: StateManager;
+  private callSessions: CallSessionTracker;
+  private offlineQueue: OfflineQueue | null;
+  private heartbeat: HeartbeatMonitor | null;
+  private events: SDKEventEmitter;
+  private behaviors: Map<FakeMethod, FakeBehavior> = new Map();
+  private calls: FakeCall[] = [];
+  private subscribedTopics: Set<TopicName> = new Set();
+  private topics: TopicRegistry = new TopicRegistry();
+  private status: ConnectionStatus = { state: 'idle', connected: false, connecting: false };
+  private stateMachine: ConnectionStateMachine;
+  private statusExtras: Pick<ConnectionStatus, 'previousPort'> = {};
+  private port: number | undefined = undefined;
+  private serverInfo: ServerInfo;
+  private connectPromise: Promise<void> | null = null;
+  private reconnectWaiters: Array<{ resolve: () => void; reject: (error: KrispSDKError) => void }> = [];
+
+  // State as the fake server currently sees it, by topic
+  private serverStates: Map<TopicName, unknown> = new Map();
+
+  constructor(options: FakeKrispSDKOptions = {}) {
+    this.options = options;
+    this.clock = options.clock ?? new SystemClock();
+    this.events = new SDKEventEmitter(options.logger);
+    (options.topics ?? []).forEach((definition) => this.topics.register(definition));
+    this.stateManager = new StateManager(this.events, this.topics, {
+      validation: options.validation,
+      logger: options.logger,
+      timeline: options.timeline,
+      staleAfter: options.staleAfter,
+      snapshotStore: resolveSnapshotStore(options.snapshotStore),
+      isPushed: (topic) => this.subscribedTopics.has(topic),
+      now: () => this.clock.now(),
+    });
+    this.callSessions = new CallSessionTracker(this.events, this.stateManager, {
+      gracePeriod: options.callGracePeriod,
+      now: () => this.clock.now(),
+      schedule: (callback, delay) => this.schedule(callback, delay),
+    });
+    this.offlineQueue = options.offlineQueue
+      ? new OfflineQueue(options.offlineQueue === true ? {} : options.offlineQueue, (callback, delay) =>
+          this.schedule(callback, delay)
+        )
+      : null;
+    this.heartbeat = options.heartbeat
+      ? new HeartbeatMonitor(
+          this.events,
+          async (timeout) => {
+            this.ensureConnected();
+            await this.respond('ping', 'Ping failed', { timeout });
+          },
+          () => this.loseConnection('heartbeat_timeout'),
+          {
+            ...(options.heartbeat === true ? {} : options.heartbeat),
+            now: () => this.clock.now(),
+            schedule: (callback, delay) => this.schedule(callback, delay),
+          }
+        )
+      : null;
+    this.stateMachine = new ConnectionStateMachine(
+      (transition) => this.handleTransition(transition),
+      options.logger
+    );
+
+    const now = this.clock.now();
+    this.serverStates.set('devices', options.deviceState ?? createMockDeviceState(now));
+    this.serverStates.set('nc', options.ncState ?? createMockFeatureState(true, false, now));
+    this.serverStates.set('ac', options.acState ?? createMockFeatureState(false, false, now));
+    this.serverStates.set('in_call', options.inCallState ?? { inCall: false, updatedAt: now });
+    Object.entries(options.topicStates ?? {}).forEach(([topic, state]) => this.serverStates.set(topic, state));
+
+    const defaults = legacyServerInfo();
+    this.serverInfo = {
+      ...defaults,
+      topics: this.topics.topics(),
+      requests: [...defaults.requests, ...(options.topics ?? []).map((definition) => definition.request)],
+      negotiated: true,
+      ...options.serverInfo,
+    };
+  }
+
+  /**
+   * Calls made while a connection is in progress share its outcome; while
+   * reconnecting, resolves once `simulateReconnect` brings the connection back
+   */
+  public connect(): Promise<void> {
+    this.record('connect', []);
+    if (!this.connectPromise) {
+      const connectPromise = this.establish().finally(() => {
+        if (this.connectPromise === connectPromise) {
+          this.connectPromise = null;
+        }
+      });
+      this.connectPromise = connectPromise;
+    }
+    return this.connectPromise;
+  }
+
+  private async establish(): Promise<void> {
+    if (this.status.connected) {
+      return;
+    }
+    if (this.status.connecting) {
+      await new Promise<void>((resolve, reject) => {
+        this.reconnectWaiters.push({ resolve, reject });
+      });
+      return;
+    }
+
+    this.transition('connecting', { reason: 'connect', port: this.getPort() });
+
+    try {
+      await this.respond('connect', undefined);
+    } catch (error) {
+      const sdkError =
+        (error as KrispSDKError).code === ErrorCode.CONNECTION_TIMEOUT
+          ? (error as KrispSDKError)
+          : new KrispSDKError(
+              ErrorCode.KRISP_NOT_REACHABLE,
+              'Krisp Desktop is not reachable or API is disabled'
+            );
+      this.transition('failed', {
+        reason: 'connect_failed',
+        error: { code: sdkError.code, message: sdkError.message },
+      });
+      throw sdkError;
+    }
+
+    this.transition('connected', { reason: 'connected', port: this.getPort() });
+    this.deliverAllStates();
+
+    if (this.options.autoSubscribe !== false) {
+      await this.subscribe(this.options.autoSubscribeTopics || this.topics.topics());
+    }
+  }
+
+  public disconnect(): void {
+    this.record('disconnect', []);
+    this.subscribedTopics.clear();
+    if (this.stateMachine.getState() !== 'closed') {
+      this.transition('closed', { reason: 'disconnect' });
+    }
+  }
+
+  public async getDevicesState(options?: RequestOptions): Promise<DeviceState> {
+    this.record('getDevicesState', options ? [options] : []);
+    return this.fetchTopic('getDevicesState', 'devices', 'Failed to get device state', options);
+  }
+
+  public async getNoiseCancellationState(options?: RequestOptions): Promise<NcState> {
+    this.record('getNoiseCancellationState', options ? [options] : []);
+    return this.fetchTopic('getNoiseCancellationState', 'nc', 'Failed to get NC state', options);
+  }
+
+  public async getAccentConversionState(options?: RequestOptions): Promise<AcState> {
+    this.record('getAccentConversionState', options ? [options] : []);
+    return this.fetchTopic('getAccentConversionState', 'ac', 'Failed to get AC state', options);
+  }
+
+  public async getInCallState(options?: RequestOptions): Promise<InCallState> {
+    this.record('getInCallState', options ? [options] : []);
+    return this.fetchTopic('getInCallState', 'in_call', 'Failed to get in-call state', options);
+  }
+
+  public getState<K extends keyof BuiltInTopicStates>(topic: K, options?: RequestOptions): Promise<BuiltInTopicStates[K]>;
+  public getState<T = unknown>(topic: TopicName, options?: RequestOptions): Promise<T>;
+  public async getState(topic: TopicName, options?: RequestOptions): Promise<unknown> {
+    this.record('getState', options ? [topic, options] : [topic]);
+    return this.fetchTopic('getState', topic, `Failed to get ${topic} state`, options);
+  }
+
+  public async getAllStates(options?: RequestOptions): Promise<AllStates> {
+    this.record('getAllStates', options ? [options] : []);
+    return this.whenConnected(
+      { key: 'getAllStates', request: ALL_STATES_REQUEST, run: (_topics, runOptions) => this.fetchAllStates(runOptions) },
+      options
+    );
+  }
+
+  private async fetchAllStates(options: RequestOptions): Promise<AllStates> {
+    this.ensureConnected();
+    await this.respond('getAllStates', 'Failed to get all states', options);
+    const messages = this.topics
+      .topics()
+      .filter((topic) => this.isAdvertised(topic) && this.serverStates.has(topic))
+      .map((topic) => ({ event: this.topics.get(topic)!.message, data: this.serverStates.get(topic) }));
+    try {
+      this.stateManager.handleMessages(messages);
+    } catch (error) {
+      throw new KrispRequestError(
+        ErrorCode.INVALID_MESSAGE,
+        ALL_STATES_REQUEST,
+        'invalid_response',
+        `Request '${ALL_STATES_REQUEST}' received an invalid state`,
+        error as Error
+      );
+    }
+    return {
+      devices: this.stateManager.getDeviceState(),
+      nc: this.stateManager.getNcState(),
+      ac: this.stateManager.getAcState(),
+      inCall: this.stateManager.getInCallState(),
+      topics: this.stateManager.getStates(),
+      capturedAt: this.clock.now(),
+    };
+  }
+
+  public registerTopic<T>(definition: TopicDefinition<T>): void {
+    this.topics.register(definition);
+  }
+
+  public async subscribe(requestedTopics: TopicName[], options?: RequestOptions): Promise<void> {
+    this.record('subscribe', [requestedTopics]);
+    return this.whenConnected(
+      {
+        key: 'subscribe',
+        request: 'subscribe',
+        topics: requestedTopics,
+        run: (queued, runOptions) => this.sendSubscribe(queued, runOptions),
+      },
+      options
+    );
+  }
+
+  public async unsubscribe(topics: TopicName[], options?: RequestOptions): Promise<void> {
+    this.record('unsubscribe', [topics]);
+    return this.whenConnected(
+      {
+        key: 'unsubscribe',
+        request: 'unsubscribe',
+        topics,
+        run: async (queued, runOptions) => {
+          this.ensureConnected();
+          this.ensureSupported('unsubscribe');
+          await this.respond('unsubscribe', 'Failed to unsubscribe', runOptions);
+          queued.forEach((topic) => this.subscribedTopics.delete(topic));
+        },
+      },
+      options
+    );
+  }
+
+  private async sendSubscribe(requestedTopics: TopicName[], options: RequestOptions): Promise<void> {
+    this.ensureConnected();
+    this.ensureSupported('subscribe');
+    const topics = requestedTopics.filter(
+      (topic) => this.topics.has(topic) && this.isAdvertised(topic)
+    );
+    if (topics.length === 0) {
+      throw new KrispRequestError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        'subscribe',
+        'unsupported',
+        `None of the topics ${requestedTopics.join(', ')} are supported by the server`
+      );
+    }
+    await this.respond('subscribe', 'Failed to subscribe', options);
+    topics.forEach((topic) => this.subscribedTopics.add(topic));
+  }
+
+  public getConnectionStatus(): ConnectionStatus {
+    return this.heartbeat ? { ...this.status, heartbeat: this.heartbeat.getStats() } : { ...this.status };
+  }
+
+  public getServerInfo(): ServerInfo | null {
+    return this.status.connected ? { ...this.serverInfo } : null;
+  }
+
+  public getCurrentCallSession(): CallSession | null {
+    return this.callSessions.getCurrentSession();
+  }
+
+  public getStateAt(timestamp: number): { [topic: string]: unknown };
+  public getStateAt<K extends keyof BuiltInTopicStates>(timestamp: number, topic: K): BuiltInTopicStates[K] | null;
+  public getStateAt<T = unknown>(timestamp: number, topic: TopicName): T | null;
+  public getStateAt(timestamp: number, topic?: TopicName): unknown {
+    return topic === undefined
+      ? this.stateManager.getStateAt(timestamp)
+      : this.stateManager.getStateAt(timestamp, topic);
+  }
+
+  public getIntervals<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  public getIntervals<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[];
+  public getIntervals(
+    topic: TopicName,
+    predicate: (state: any) => boolean,
+    from?: number,
+    to?: number
+  ): TimeInterval[] {
+    return this.stateManager.getIntervals(topic, predicate, from, to);
+  }
+
+  public getDuration<K extends keyof BuiltInTopicStates>(
+    topic: K,
+    predicate: (state: BuiltInTopicStates[K]) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  public getDuration<T = unknown>(
+    topic: TopicName,
+    predicate: (state: T) => boolean,
+    from?: number,
+    to?: number
+  ): number;
+  public getDuration(topic: TopicName, predicate: (state: any) => boolean, from?: number, to?: number): number {
+    return this.stateManager.getDuration(topic, predicate, from, to);
+  }
+
+  public getFreshness(topic: TopicName): TopicFreshness {
+    return this.stateManager.getFreshness(topic);
+  }
+
+  public getClockSkew(): number | null {
+    return this.stateManager.getClockSkew();
+  }
+
+  public whenHydrated(): Promise<void> {
+    return this.stateManager.whenHydrated();
+  }
+
+  public async discover(): Promise<PortProbeResult[]> {
+    this.record('discover', []);
+    const reachable = (this.behaviors.get('connect') ?? 'ok') === 'ok';
+    return [
+      {
+        port: this.getPort(),
+        reachable,
+        latency: this.options.latency ?? 0,
+        error: reachable ? undefined : 'Connection refused',
+      },
+    ];
+  }
+
+  public on<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe {
+    return this.events.on(event, handler);
+  }
+
+  public once<E extends SDKEvent>(event: E, handler: EventHandler<SDKEventMap[E]>): Unsubscribe {
+    return this.events.once(event, handler);
+  }
+
+  public onAny(handler: AnyEventHandler): Unsubscribe {
+    return this.events.onAny(handler);
+  }
+
+  public off<E extends SDKEvent>(event: E, handler?: EventHandler<SDKEventMap[E]>): void {
+    this.events.off(event, handler);
+  }
+
+  public async ping(options?: RequestOptions): Promise<void> {
+    this.record('ping', options ? [options] : []);
+    return this.whenConnected(
+      {
+        key: 'ping',
+        request: 'ping',
+        run: async (_topics, runOptions) => {
+          this.ensureConnected();
+          this.ensureSupported('ping');
+          await this.respond('ping', 'Ping failed', runOptions);
+        },
+      },
+      options
+    );
+  }
+
+  public stream<K extends StreamTopic>(topic: K, options?: StreamOptions): StateStream<StreamTopicMap[K]> {
+    const source = createStreamSource(topic, this.events, this.stateManager, () =>
+      this.getConnectionState()
+    );
+    return new StateStream(source, options);
+  }
+
+  public waitFor(selector: StateSelector, options?: WaitForOptions): Promise<StateSnapshot> {
+    return waitForState(
+      this.events,
+      () => ({
+        devices: this.stateManager.getLiveState('devices'),
+        nc: this.stateManager.getLiveState('nc'),
+        ac: this.stateManager.getLiveState('ac'),
+        inCall: this.stateManager.getLiveState('in_call'),
+        topics: this.stateManager.getLiveStates(),
+        connection: this.getConnectionState(),
+      }),
+      selector,
+      options,
+      (callback, delay) => this.schedule(callback, delay)
+    );
+  }
+
+  /**
+   * Script how a method responds from now on
+   */
+  public setBehavior(method: FakeMethod, behavior: FakeBehavior): void {
+    this.behaviors.set(method, behavior);
+  }
+
+  /**
+   * Recorded public method calls, optionally filtered by method name
+   */
+  public getCalls(method?: string): FakeCall[] {
+    return method ? this.calls.filter((call) => call.method === method) : [...this.calls];
+  }
+
+  public clearCalls(): void {
+    this.calls = [];
+  }
+
+  public getSubscribedTopics(): TopicName[] {
+    return Array.from(this.subscribedTopics);
+  }
+
+  /**
+   * Change device state; delivered to handlers if subscribed to `devices`
+   */
+  public setDeviceState(state: DeviceState): void {
+    this.setTopicState('devices', state);
+  }
+
+  /**
+   * Change NC state; delivered to handlers if subscribed to `nc`
+   */
+  public setNcState(state: NcState): void {
+    this.setTopicState('nc', state);
+  }
+
+  /**
+   * Change AC state; delivered to handlers if subscribed to `ac`
+   */
+  public setAcState(state: AcState): void {
+    this.setTopicState('ac', state);
+  }
+
+  /**
+   * Change in-call state; delivered to handlers if subscribed to `in_call`
+   */
+  public setInCallState(state: InCallState): void {
+    this.setTopicState('in_call', state);
+  }
+
+  /**
+   * Change the state of any topic, including custom ones; delivered to handlers
+   * if subscribed to `topic`
+   */
+  public setTopicState(topic: TopicName, state: unknown): void {
+    this.serverStates.set(topic, state);
+    const definition = this.topics.get(topic);
+    if (definition) {
+      this.push(topic, () => this.deliver(definition.message, state));
+    }
+  }
+
+  /**
+   * Simulate a server `error` message
+   */
+  public simulateServerError(code: string, message: string): void {
+    this.deliver('error', { code, message });
+  }
+
+  /**
+   * Simulate losing the connection. A `network` loss moves to reconnecting when
+   * auto-reconnect is enabled; a `server` disconnect is final, as in the real SDK.
+   */
+  public simulateDisconnect(reason: 'network' | 'server' = 'network'): void {
+    if (!this.status.connected) {
+      return;
+    }
+
+    if (reason === 'server') {
+      this.transition('failed', {
+        reason: 'server_disconnect',
+        port: this.status.port,
+        error: {
+          code: ErrorCode.CONNECTION_REFUSED,
+          message: 'Server disconnected client',
+        },
+      });
+      return;
+    }
+
+    this.loseConnection('transport close');
+  }
+
+  /**
+   * Simulate a successful reconnection: states are re-fetched and previously
+   * subscribed topics re-subscribed. Pass `port` to simulate Krisp moving ports.
+   * From `failed` or `closed` this goes through `connecting` like a manual connect.
+   */
+  public simulateReconnect(port?: number): void {
+    if (this.status.connected) {
+      return;
+    }
+
+    const previousPort = this.getPort();
+    if (port !== undefined) {
+      this.port = port;
+    }
+    if (!this.stateMachine.canTransition('connected')) {
+      this.transition('connecting', { reason: 'connect', port: this.getPort() });
+    }
+    this.transition(
+      'connected',
+      { reason: 'connected', port: this.getPort() },
+      { previousPort: this.getPort() !== previousPort ? previousPort : undefined }
+    );
+    this.deliverAllStates();
+
+    if (this.subscribedTopics.size === 0 && this.options.autoSubscribe !== false) {
+      (this.options.autoSubscribeTopics || this.topics.topics())
+        .filter((topic) => this.topics.has(topic) && this.isAdvertised(topic))
+        .forEach((topic) => this.subscribedTopics.add(topic));
+    }
+  }
+
+  /**
+   * Move to reconnecting, or to failed with auto-reconnect disabled, as the
+   * real SDK does after an unexpected disconnect
+   */
+  private loseConnection(reason: string): void {
+    const port = this.status.port;
+    if (this.options.autoReconnect === false) {
+      this.transition('failed', {
+        reason,
+        port,
+        error: {
+          code: ErrorCode.CONNECTION_REFUSED,
+          message: `Disconnected: ${reason}`,
+        },
+      });
+      return;
+    }
+
+    this.transition('reconnecting', { reason, port });
+  }
+
+  private schedule(callback: () => void, delay: number): () => void {
+    const timer = this.clock.setTimeout(callback, delay);
+    return () => this.clock.clearTimeout(timer);
+  }
+
+  private getConnectionState(): ConnectionState {
+    const { state, connected, connecting, port, previousPort, error } = this.status;
+    return { state, connected, connecting, port, previousPort, error };
+  }
+
+  private getPort(): number {
+    return this.port ?? this.options.port ?? DEFAULT_FAKE_PORT;
+  }
+
+  private async fetchTopic(
+    method: FakeMethod,
+    topic: TopicName,
+    failureMessage: string,
+    options?: RequestOptions
+  ): Promise<any> {
+    const definition = this.topics.get(topic);
+    if (!definition) {
+      throw new KrispSDKError(ErrorCode.UNSUPPORTED_OPERATION, `Topic '${topic}' is not registered`);
+    }
+    return this.whenConnected(
+      {
+        key: `getState:${topic}`,
+        request: definition.request,
+        run: async (_topics, runOptions) => {
+          this.ensureConnected();
+          this.ensureSupported(definition.request);
+          await this.respond(method, failureMessage, runOptions);
+          this.receiveState(definition.request, definition.message, this.serverStates.get(topic));
+          return this.stateManager.getState(topic);
+        },
+      },
+      options
+    );
+  }
+
+  /**
+   * Run `call` now, or with the offline queue enabled, once the connection
+   * being established is up
+   */
+  private whenConnected<T>(call: QueuedCall<T>, options?: RequestOptions): Promise<T> {
+    if (!this.offlineQueue || this.status.connected || !this.status.connecting) {
+      return call.run(call.topics ?? [], options ?? {});
+    }
+    return this.offlineQueue.enqueue(call, options);
+  }
+
+  /**
+   * Whether the fake server may support `topic`; without a negotiated
+   * handshake every registered topic is tried, as in the real SDK
+   */
+  private isAdvertised(topic: TopicName): boolean {
+    return !this.serverInfo.negotiated || this.serverInfo.topics.includes(topic);
+  }
+
+  private ensureSupported(request: string): void {
+    // Like the real SDK, only a server that negotiated its capabilities rejects unlisted requests
+    if (this.serverInfo.negotiated && !this.serverInfo.requests.includes(request)) {
+      throw new KrispRequestError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        request,
+        'unsupported',
+        `Request '${request}' is not supported by the server`
+      );
+    }
+  }
+
+  private ensureConnected(): void {
+    if (!this.status.connected) {
+      throw new KrispSDKError(ErrorCode.CONNECTION_REFUSED, 'Not connected to server');
+    }
+  }
+
+  private respond(
+    method: FakeMethod,
+    failureMessage: string | undefined,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    const behavior = this.behaviors.get(method) ?? 'ok';
+    const { signal } = options;
+
+    return new Promise((resolve, reject) => {
+      let timer: number | undefined;
+
+      const onAbort = () => {
+        if (timer !== undefined) {
+          this.clock.clearTimeout(timer);
+        }
+        reject(
+          new KrispRequestError(ErrorCode.REQUEST_ABORTED, method, 'aborted', `Request '${method}' was aborted`)
+        );
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const finish = (fn: () => void) => {
+        signal?.removeEventListener('abort', onAbort);
+        fn();
+      };
+
+      if (behavior === 'timeout') {
+        const timeout = options.timeout ?? this.options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+        timer = this.clock.setTimeout(() => {
+          finish(() =>
+            reject(
+              new KrispRequestError(
+                ErrorCode.CONNECTION_TIMEOUT,
+                method,
+                'timeout',
+                `Request '${method}' timed out after ${timeout}ms`
+              )
+            )
+          );
+        }, timeout);
+        return;
+      }
+
+      const settle = () => {
+        finish(() => {
+          if (behavior === 'fail') {
+            reject(
+              new KrispRequestError(
+                ErrorCode.UNKNOWN_ERROR,
+                method,
+                'rejected',
+                failureMessage || `Request '${method}' was rejected by the server`
+              )
+            );
+          } else {
+            resolve();
+          }
+        });
+      };
+
+      const latency = this.options.latency ?? 0;
+      if (latency > 0) {
+        timer = this.clock.setTimeout(settle, latency);
+      } else {
+        settle();
+      }
+    });
+  }
+
+  private push(topic: TopicName, deliver: () => void): void {
+    if (this.status.connected && this.subscribedTopics.has(topic)) {
+      deliver();
+    }
+  }
+
+  private deliverAllStates(): void {
+    this.serverStates.forEach((state, topic) => {
+      const definition = this.topics.get(topic);
+      if (definition) {
+        this.deliver(definition.message, state);
+      }
+    });
+  }
+
+  /**
+   * Apply a pushed server message; invalid payloads surface as `ERROR` events like in the real SDK
+   */
+  private deliver(event: string, data: any): void {
+    try {
+      this.stateManager.handleMessage(event, data);
+    } catch (error) {
+      if (!(error instanceof KrispValidationError)) {
+        throw error;
+      }
+      this.events.emit(SDKEvent.ERROR, {
+        code: error.code,
+        message: error.message,
+        originalError: error,
+        messageType: error.messageType,
+        path: error.path,
+        expected: error.expected,
+        received: error.received,
+        excerpt: error.excerpt,
+      });
+    }
+  }
+
+  /**
+   * Apply a requested state message; invalid payloads reject the request like in the real SDK
+   */
+  private receiveState(request: string, event: string, data: any): void {
+    try {
+      this.stateManager.validate(event, data);
+    } catch (error) {
+      throw new KrispRequestError(
+        ErrorCode.INVALID_MESSAGE,
+        request,
+        'invalid_response',
+        `Request '${request}' received an invalid '${event}' message`,
+        error as Error
+      );
+    }
+    this.deliver(event, data);
+  }
+
+  private transition(
+    to: ConnectionLifecycleState,
+    details: TransitionDetails,
+    extras: Pick<ConnectionStatus, 'previousPort'> = {}
+  ): void {
+    this.statusExtras = extras;
+    this.stateMachine.transition(to, details);
+  }
+
+  private handleTransition(transition: ConnectionTransition): void {
+    this.status = {
+      state: transition.to,
+      connected: transition.to === 'connected',
+      connecting: isConnectingState(transition.to),
+      port: transition.port,
+      ...this.statusExtras,
+      error: transition.error,
+    };
+    if (transition.from === 'connected') {
+      this.heartbeat?.stop();
+    } else if (transition.to === 'connected') {
+      this.stateManager.startConnection();
+    }
+    this.events.emit(SDKEvent.CONNECTION_TRANSITION, transition);
+    this.events.emit(SDKEvent.CONNECTION_CHANGED, this.getConnectionState());
+    if (transition.to === 'connected') {
+      this.offlineQueue?.flush();
+      if (this.serverInfo.requests.includes('ping')) {
+        this.heartbeat?.start();
+      }
+    } else if (transition.to === 'failed' || transition.to === 'closed') {
+      this.offlineQueue?.rejectAll('disconnected');
+    }
+    if (transition.to === 'connected' || transition.to === 'failed' || transition.to === 'closed') {
+      this.settleReconnectWaiters(transition);
+    }
+  }
+
+  /**
+   * Settle connect() calls made while reconnecting
+   */
+  private settleReconnectWaiters(transition: ConnectionTransition): void {
+    const waiters = this.reconnectWaiters;
+    this.reconnectWaiters = [];
+    waiters.forEach((waiter) => {
+      if (transition.to === 'connected') {
+        waiter.resolve();
+      } else {
+        waiter.reject(
+          new KrispSDKError(ErrorCode.CONNECTION_REFUSED, transition.error?.message ?? 'Connection closed')
+        );
+      }
+    });
+  }
+
+  private record(method: string, args: any[]): void {
+    this.calls.push({ method, args, at: this.clock.now() });
+  }
+}
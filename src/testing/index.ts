@@ -0,0 +1,8 @@
+/**
+ * Test utilities for code built on the Krisp Local Monitoring SDK
+ */
+
+export * from './mock-server';
+export * from './mock-states';
+export * from './fake-sdk';
+export * from './virtual-clock';
@@ -0,0 +1,494 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import type { Server, Socket } from 'socket.io';
+import {
+  DeviceState,
+  NcState,
+  AcState,
+  InCallState,
+} from '../types';
+import {
+  PROTOCOL_VERSION,
+  SERVER_INFO_REQUEST,
+  ALL_STATES_REQUEST,
+  KNOWN_TOPICS,
+  KNOWN_REQUESTS,
+} from '../server-info';
+import { BUILT_IN_TOPICS, TopicName } from '../topic-registry';
+import { createMockDeviceState, createMockFeatureState } from './mock-states';
+
+const DEFAULT_MOCK_HOST = '127.0.0.1';
+const DEFAULT_MOCK_PORT = 50190;
+
+/**
+ * A topic the mock serves besides the built-in ones
+ */
+export interface MockTopic {
+  topic: string;
+  message: string;
+  request: string;
+  state: unknown;
+}
+
+/**
+ * Requests answered by the mock server
+ */
+export type MockRequest =
+  | 'subscribe'
+  | 'unsubscribe'
+  | 'get_device_state'
+  | 'get_nc_state'
+  | 'get_ac_state'
+  | 'get_in_call_state'
+  | 'get_server_info'
+  | 'get_all_states'
+  | 'ping'
+  | (string & {});
+
+/**
+ * How the mock server answers a request:
+ * - `ok`: acknowledge with `{ success: true }` and push the requested state
+ * - `fail`: acknowledge with `{ success: false }`
+ * - `ignore`: never acknowledge (lets clients hit their request timeout)
+ */
+export type MockRequestBehavior = 'ok' | 'fail' | 'ignore';
+
+export interface MockKrispServerOptions {
+  host?: string;
+  port?: number;
+  deviceState?: DeviceState;
+  ncState?: NcState;
+  acState?: AcState;
+  inCallState?: InCallState;
+  /**
+   * Topics the server agrees to subscribe to (default: all)
+   */
+  supportedTopics?: TopicName[];
+  /**
+   * Additional topics, e.g. to exercise topics registered with `registerTopic`
+   */
+  topics?: MockTopic[];
+  /**
+   * Requests the server answers; others are silently ignored like an older
+   * Krisp Desktop would (default: all)
+   */
+  supportedRequests?: MockRequest[];
+  /**
+   * Advertise and answer the batched `get_all_states` request (default: false,
+   * like Krisp Desktop versions predating it)
+   */
+  allStatesRequest?: boolean;
+  /**
+   * Protocol version reported in the handshake (default: the SDK's)
+   */
+  protocolVersion?: string;
+  /**
+   * Answer the `get_server_info` handshake; `false` simulates a server that
+   * predates it (default: true)
+   */
+  handshake?: boolean;
+}
+
+export interface MockRequestRecord {
+  event: string;
+  data: any;
+  socketId: string;
+  receivedAt: number;
+}
+
+/**
+ * In-process mock of the Krisp Desktop WebSocket API.
+ *
+ * Speaks the same Socket.IO protocol as `ConnectionManager` and exposes a
+ * scripting API to change state, inject malformed payloads and drop or move
+ * the connection, so the SDK can be exercised end to end without Krisp Desktop.
+ */
+export class MockKrispServer {
+  private httpServer: HttpServer | null = null;
+  private io: Server | null = null;
+  private host: string;
+  private port: number;
+  private deviceState: DeviceState;
+  private ncState: NcState;
+  private acState: AcState;
+  private inCallState: InCallState;
+  private supportedTopics: Set<TopicName>;
+  private customTopics: Map<string, MockTopic> = new Map();
+  private supportedRequests: Set<string>;
+  private protocolVersion: string;
+  private handshake: boolean;
+  private subscriptions: Map<string, Set<TopicName>> = new Map();
+  private requestBehaviors: Map<MockRequest, MockRequestBehavior> = new Map();
+  private requests: MockRequestRecord[] = [];
+
+  constructor(options: MockKrispServerOptions = {}) {
+    const now = Date.now();
+    this.host = options.host ?? DEFAULT_MOCK_HOST;
+    this.port = options.port ?? DEFAULT_MOCK_PORT;
+    this.deviceState = options.deviceState ?? createMockDeviceState(now);
+    this.ncState = options.ncState ?? createMockFeatureState(true, false, now);
+    this.acState = options.acState ?? createMockFeatureState(false, false, now);
+    this.inCallState = options.inCallState ?? { inCall: false, updatedAt: now };
+    (options.topics ?? []).forEach((topic) => this.customTopics.set(topic.topic, { ...topic }));
+    const customTopics = Array.from(this.customTopics.values());
+    this.supportedTopics = new Set(
+      options.supportedTopics ?? [...KNOWN_TOPICS, ...customTopics.map((topic) => topic.topic)]
+    );
+    this.supportedRequests = new Set(
+      options.supportedRequests ?? [
+        ...KNOWN_REQUESTS,
+        ...(options.allStatesRequest ? [ALL_STATES_REQUEST] : []),
+        ...customTopics.map((topic) => topic.request),
+      ]
+    );
+    this.protocolVersion = options.protocolVersion ?? PROTOCOL_VERSION;
+    this.handshake = options.handshake !== false;
+  }
+
+  /**
+   * Start listening. Pass `0` to bind a random free port.
+   * Resolves with the port actually bound.
+   */
+  public async start(port: number = this.port): Promise<number> {
+    if (this.httpServer) {
+      throw new Error(`Mock server is already listening on port ${this.port}`);
+    }
+
+    // Loaded on first start so the rest of the testing module works without
+    // the optional socket.io peer dependency
+    const { Server: SocketServer } = await import('socket.io');
+    const httpServer = createServer();
+    const io = new SocketServer(httpServer, { transports: ['websocket'] });
+    io.on('connection', (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, this.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.io = io;
+    this.port = (httpServer.address() as AddressInfo).port;
+    return this.port;
+  }
+
+  /**
+   * Stop listening and close every client connection
+   */
+  public async stop(): Promise<void> {
+    const io = this.io;
+    if (!io) {
+      return;
+    }
+
+    this.io = null;
+    this.httpServer = null;
+    this.subscriptions.clear();
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+  }
+
+  /**
+   * Simulate a Krisp Desktop restart, optionally binding a different port
+   */
+  public async restart(port: number = this.port): Promise<number> {
+    await this.stop();
+    return this.start(port);
+  }
+
+  public getPort(): number | undefined {
+    return this.httpServer ? this.port : undefined;
+  }
+
+  public isRunning(): boolean {
+    return this.httpServer !== null;
+  }
+
+  public getClientCount(): number {
+    return this.io?.of('/').sockets.size ?? 0;
+  }
+
+  /**
+   * Topics subscribed to by any connected client
+   */
+  public getSubscriptions(): TopicName[] {
+    const topics = new Set<TopicName>();
+    this.subscriptions.forEach((socketTopics) => {
+      socketTopics.forEach((topic) => topics.add(topic));
+    });
+    return Array.from(topics);
+  }
+
+  /**
+   * Requests received so far, optionally filtered by event name
+   */
+  public getRequests(event?: string): MockRequestRecord[] {
+    return event ? this.requests.filter((request) => request.event === event) : [...this.requests];
+  }
+
+  public clearRequests(): void {
+    this.requests = [];
+  }
+
+  /**
+   * Change how a request is answered (see `MockRequestBehavior`)
+   */
+  public setRequestBehavior(request: MockRequest, behavior: MockRequestBehavior): void {
+    this.requestBehaviors.set(request, behavior);
+  }
+
+  public getDeviceState(): DeviceState {
+    return this.deviceState;
+  }
+
+  public getNcState(): NcState {
+    return this.ncState;
+  }
+
+  public getAcState(): AcState {
+    return this.acState;
+  }
+
+  public getInCallState(): InCallState {
+    return this.inCallState;
+  }
+
+  /**
+   * Replace device state and push it to `devices` subscribers
+   */
+  public setDeviceState(state: DeviceState): void {
+    this.deviceState = state;
+    this.pushToSubscribers('devices', state);
+  }
+
+  /**
+   * Replace NC state and push it to `nc` subscribers
+   */
+  public setNcState(state: NcState): void {
+    this.ncState = state;
+    this.pushToSubscribers('nc', state);
+  }
+
+  /**
+   * Replace AC state and push it to `ac` subscribers
+   */
+  public setAcState(state: AcState): void {
+    this.acState = state;
+    this.pushToSubscribers('ac', state);
+  }
+
+  /**
+   * Replace in-call state and push it to `in_call` subscribers
+   */
+  public setInCallState(state: InCallState): void {
+    this.inCallState = state;
+    this.pushToSubscribers('in_call', state);
+  }
+
+  public getTopicState(topic: string): unknown {
+    return this.customTopics.get(topic)?.state;
+  }
+
+  /**
+   * Replace the state of a custom topic and push it to its subscribers
+   */
+  public setTopicState(topic: string, state: unknown): void {
+    const custom = this.customTopics.get(topic);
+    if (!custom) {
+      throw new Error(`Unknown mock topic '${topic}'`);
+    }
+    custom.state = state;
+    this.pushToSubscribers(topic, state);
+  }
+
+  /**
+   * Push a server `error` message to every client
+   */
+  public sendError(code: string, message: string): void {
+    this.io?.emit('error', { code, message });
+  }
+
+  /**
+   * Send an arbitrary, possibly malformed, payload to every client
+   */
+  public sendRaw(event: string, payload: any): void {
+    this.io?.emit(event, payload);
+  }
+
+  /**
+   * Close the underlying transports without a Socket.IO disconnect packet.
+   * Clients see this as network loss and auto-reconnect.
+   */
+  public dropConnections(): void {
+    this.io?.of('/').sockets.forEach((socket) => socket.conn.close());
+  }
+
+  /**
+   * Disconnect every client from the server side ("io server disconnect").
+   * Clients do not auto-reconnect after this.
+   */
+  public disconnectClients(): void {
+    this.io?.disconnectSockets(true);
+  }
+
+  private handleConnection(socket: Socket): void {
+    this.subscriptions.set(socket.id, new Set());
+
+    socket.on('disconnect', () => {
+      this.subscriptions.delete(socket.id);
+    });
+
+    if (this.handshake) {
+      socket.on(SERVER_INFO_REQUEST, (data: any, ack?: (response: any) => void) => {
+        this.record(socket, SERVER_INFO_REQUEST, data);
+        if (!this.shouldAnswer(SERVER_INFO_REQUEST, ack)) {
+          return;
+        }
+
+        ack?.({
+          success: true,
+          protocolVersion: this.protocolVersion,
+          topics: Array.from(this.supportedTopics),
+          requests: Array.from(this.supportedRequests),
+          serverTime: Date.now(),
+        });
+      });
+    }
+
+    socket.on('subscribe', (data: any, ack?: (response: any) => void) => {
+      this.record(socket, 'subscribe', data);
+      if (!this.shouldAnswer('subscribe', ack)) {
+        return;
+      }
+
+      const requested: TopicName[] = Array.isArray(data?.topics) ? data.topics : [];
+      const subscribed = requested.filter((topic) => this.supportedTopics.has(topic));
+      const socketTopics = this.subscriptions.get(socket.id);
+      subscribed.forEach((topic) => socketTopics?.add(topic));
+      ack?.({ success: true, subscribed });
+    });
+
+    socket.on('unsubscribe', (data: any, ack?: (response: any) => void) => {
+      this.record(socket, 'unsubscribe', data);
+      if (!this.shouldAnswer('unsubscribe', ack)) {
+        return;
+      }
+
+      const requested: TopicName[] = Array.isArray(data?.topics) ? data.topics : [];
+      const socketTopics = this.subscriptions.get(socket.id);
+      requested.forEach((topic) => socketTopics?.delete(topic));
+      ack?.({ success: true, unsubscribed: requested });
+    });
+
+    socket.on(ALL_STATES_REQUEST, (data: any, ack?: (response: any) => void) => {
+      this.record(socket, ALL_STATES_REQUEST, data);
+      if (!this.shouldAnswer(ALL_STATES_REQUEST, ack)) {
+        return;
+      }
+
+      const requested: TopicName[] = Array.isArray(data?.topics) ? data.topics : Array.from(this.supportedTopics);
+      const states: { [topic: string]: unknown } = {};
+      requested
+        .filter((topic) => this.supportedTopics.has(topic))
+        .forEach((topic) => {
+          const state = this.topicState(topic);
+          if (state !== undefined) {
+            states[topic] = state;
+          }
+        });
+      ack?.({ success: true, states });
+    });
+
+    this.handleGetRequest(socket, 'get_device_state', 'device_state', () => this.deviceState);
+    this.handleGetRequest(socket, 'get_nc_state', 'nc_state', () => this.ncState);
+    this.handleGetRequest(socket, 'get_ac_state', 'ac_state', () => this.acState);
+    this.handleGetRequest(socket, 'get_in_call_state', 'in_call_state', () => this.inCallState);
+    this.handleGetRequest(socket, 'ping', 'pong', () => ({}), () => ({ serverTime: Date.now() }));
+    this.customTopics.forEach((topic) => {
+      this.handleGetRequest(socket, topic.request, topic.message, () => topic.state);
+    });
+  }
+
+  private handleGetRequest(
+    socket: Socket,
+    request: MockRequest,
+    message: string,
+    getState: () => any,
+    getAckFields: () => object = () => ({})
+  ): void {
+    socket.on(request, (data: any, ack?: (response: any) => void) => {
+      this.record(socket, request, data);
+      if (!this.shouldAnswer(request, ack)) {
+        return;
+      }
+
+      socket.emit(message, getState());
+      ack?.({ success: true, ...getAckFields() });
+    });
+  }
+
+  private shouldAnswer(request: MockRequest, ack?: (response: any) => void): boolean {
+    if (request !== SERVER_INFO_REQUEST && !this.supportedRequests.has(request)) {
+      return false;
+    }
+    const behavior = this.requestBehaviors.get(request) ?? 'ok';
+    if (behavior === 'ignore') {
+      return false;
+    }
+    if (behavior === 'fail') {
+      ack?.({ success: false });
+      return false;
+    }
+    return true;
+  }
+
+  private pushToSubscribers(topic: TopicName, state: any): void {
+    const io = this.io;
+    if (!io) {
+      return;
+    }
+
+    this.subscriptions.forEach((socketTopics, socketId) => {
+      if (socketTopics.has(topic)) {
+        io.to(socketId).emit(this.topicMessage(topic), state);
+      }
+    });
+  }
+
+  private topicState(topic: TopicName): unknown {
+    switch (topic) {
+      case 'devices':
+        return this.deviceState;
+      case 'nc':
+        return this.ncState;
+      case 'ac':
+        return this.acState;
+      case 'in_call':
+        return this.inCallState;
+      default:
+        return this.customTopics.get(topic)?.state;
+    }
+  }
+
+  /**
+   * Server message pushed for a subscription topic
+   */
+  private topicMessage(topic: TopicName): string {
+    return (
+      BUILT_IN_TOPICS.find((definition) => definition.topic === topic)?.message ??
+      this.customTopics.get(topic)?.message ??
+      topic
+    );
+  }
+
+  private record(socket: Socket, event: string, data: any): void {
+    this.requests.push({
+      event,
+      data,
+      socketId: socket.id,
+      receivedAt: Date.now(),
+    });
+  }
+}
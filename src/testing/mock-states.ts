@@ -0,0 +1,51 @@
+import { AudioDeviceType, DeviceState, NcState, AcState } from '../types';
+
+/**
+ * Build a device state with a plausible headset on both directions
+ */
+export function createMockDeviceState(updatedAt: number = Date.now()): DeviceState {
+  return {
+    [AudioDeviceType.microphone]: {
+      physicalDeviceInfo: {
+        id: 'mock-mic',
+        name: 'Mock Headset Microphone',
+        isMuted: false,
+        isDefaultMultimedia: true,
+        isDefaultCommunication: true,
+        isKrisp: false,
+        isHIDHeadset: true,
+        isDisabled: false,
+        isAvailable: true,
+      },
+      updatedAt,
+    },
+    [AudioDeviceType.speaker]: {
+      physicalDeviceInfo: {
+        id: 'mock-speaker',
+        name: 'Mock Headset Speaker',
+        isMuted: false,
+        isDefaultMultimedia: true,
+        isDefaultCommunication: true,
+        isKrisp: false,
+        isHIDHeadset: true,
+        isDisabled: false,
+        isAvailable: true,
+      },
+      updatedAt,
+    },
+  };
+}
+
+/**
+ * Build an NC or AC state with the given per-direction flags
+ */
+export function createMockFeatureState(
+  microphone: boolean,
+  speaker: boolean,
+  updatedAt: number = Date.now()
+): NcState & AcState {
+  return {
+    [AudioDeviceType.microphone]: { enabled: microphone, updatedAt },
+    [AudioDeviceType.speaker]: { enabled: speaker, updatedAt },
+  };
+}
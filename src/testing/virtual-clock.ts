@@ -0,0 +1,133 @@
+export type TimerHandle = number;
+
+/**
+ * Minimal timer abstraction so time-dependent code can run on virtual time
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by the real timers
+ */
+export class SystemClock implements Clock {
+  private timers: Map<TimerHandle, NodeJS.Timeout> = new Map();
+  private nextHandle = 1;
+
+  public now(): number {
+    return Date.now();
+  }
+
+  public setTimeout(callback: () => void, delay: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(
+      handle,
+      setTimeout(() => {
+        this.timers.delete(handle);
+        callback();
+      }, delay)
+    );
+    return handle;
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    const timer = this.timers.get(handle);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(handle);
+    }
+  }
+}
+
+interface VirtualTimer {
+  handle: TimerHandle;
+  dueAt: number;
+  callback: () => void;
+}
+
+/**
+ * Manually advanced clock for deterministic tests.
+ * Timers only fire from `advance()` or `runAll()`.
+ */
+export class VirtualClock implements Clock {
+  private currentTime: number;
+  private timers: VirtualTimer[] = [];
+  private nextHandle = 1;
+
+  constructor(startTime: number = 0) {
+    this.currentTime = startTime;
+  }
+
+  public now(): number {
+    return this.currentTime;
+  }
+
+  public setTimeout(callback: () => void, delay: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.push({
+      handle,
+      dueAt: this.currentTime + Math.max(0, delay),
+      callback,
+    });
+    return handle;
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter((timer) => timer.handle !== handle);
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  public getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward, firing due timers in order. Awaits pending promise
+   * callbacks after each timer so chained async work settles as it would in real time.
+   */
+  public async advance(ms: number): Promise<void> {
+    const target = this.currentTime + ms;
+
+    let timer = this.takeNextDue(target);
+    while (timer) {
+      this.currentTime = timer.dueAt;
+      timer.callback();
+      await flushMicrotasks();
+      timer = this.takeNextDue(target);
+    }
+
+    this.currentTime = target;
+    await flushMicrotasks();
+  }
+
+  /**
+   * Fire every pending timer, including ones scheduled while running
+   */
+  public async runAll(): Promise<void> {
+    while (this.timers.length > 0) {
+      const nextDue = Math.min(...this.timers.map((timer) => timer.dueAt));
+      await this.advance(nextDue - this.currentTime);
+    }
+  }
+
+  private takeNextDue(target: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers) {
+      if (timer.dueAt <= target && (!next || timer.dueAt < next.dueAt)) {
+        next = timer;
+      }
+    }
+    if (next) {
+      this.timers = this.timers.filter((timer) => timer !== next);
+    }
+    return next;
+  }
+}
+
+function flushMicrotasks(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,12 @@
+/**
+ * Schedules a callback and returns a function cancelling it
+ */
+export type TimerScheduler = (callback: () => void, delay: number) => () => void;
+
+/**
+ * Schedules with `setTimeout`
+ */
+export const defaultScheduler: TimerScheduler = (callback, delay) => {
+  const timer = setTimeout(callback, delay);
+  return () => clearTimeout(timer);
+};
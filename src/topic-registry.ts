@@ -0,0 +1,158 @@
+import { DeviceState, NcState, AcState, InCallState, SubscriptionTopic, ServerToClientMessages } from './types';
+import { SDKEvent, SDKEventMap, StateChange, StateChangeEvent } from './events';
+import { ValidationMode, validateMessage } from './message-schema';
+import { diffDevicePair } from './state-diff';
+import { OrderedUpdate, orderDevicePair } from './state-ordering';
+
+/**
+ * Name of a subscription topic: one of the built-ins, or any topic registered
+ * with `registerTopic`
+ */
+export type TopicName = SubscriptionTopic | (string & {});
+
+/**
+ * Dedicated change events whose payload carries a `T`, e.g. `NOISE_CANCELLATION_CHANGED`
+ * for `NcState`; `TOPIC_CHANGED` is emitted for every topic anyway
+ */
+export type StateChangeEventName<T> = Exclude<
+  { [E in SDKEvent]: SDKEventMap[E] extends StateChangeEvent<T> ? E : never }[SDKEvent],
+  SDKEvent.TOPIC_CHANGED
+>;
+
+/**
+ * State type of each built-in topic
+ */
+export interface BuiltInTopicStates {
+  devices: DeviceState;
+  nc: NcState;
+  ac: AcState;
+  in_call: InCallState;
+}
+
+/**
+ * Everything the SDK needs to know to subscribe to, fetch, validate, cache and
+ * emit a topic
+ */
+export interface TopicDefinition<T = unknown> {
+  /**
+   * Name used in `subscribe`/`unsubscribe`, e.g. `nc`
+   */
+  topic: string;
+  /**
+   * Server message carrying the state, e.g. `nc_state`
+   */
+  message: string;
+  /**
+   * Request asking the server to send the current state, e.g. `get_nc_state`
+   */
+  request: string;
+  /**
+   * Check a payload and return it normalized; throw if it is invalid
+   */
+  validate: (payload: unknown, mode: ValidationMode) => T;
+  /**
+   * Whether two states are the same; no change event is emitted when they are
+   * (default: structural comparison ignoring key order)
+   */
+  isEqual?: (previous: T, current: T) => boolean;
+  /**
+   * Fields that differ, reported as `changes` in change events (default: every
+   * differing leaf field, paths relative to the state)
+   */
+  diff?: (previous: T | null, current: T) => StateChange[];
+  /**
+   * Which parts of a received state are newer than the cached one; older parts
+   * are dropped instead of regressing the state (default: compare the
+   * top-level `updatedAt`, states without one always apply)
+   */
+  order?: (cached: T, received: T) => OrderedUpdate<T>;
+  /**
+   * Dedicated event emitted on change in addition to `TOPIC_CHANGED`
+   */
+  event?: StateChangeEventName<T>;
+}
+
+/**
+ * Definition of a built-in topic; its state type is the one its message is
+ * validated as
+ */
+function builtIn<M extends keyof ServerToClientMessages>(
+  topic: SubscriptionTopic,
+  message: M,
+  event: StateChangeEventName<ServerToClientMessages[M]>,
+  isEqual?: (previous: ServerToClientMessages[M], current: ServerToClientMessages[M]) => boolean,
+  diff?: (previous: ServerToClientMessages[M] | null, current: ServerToClientMessages[M]) => StateChange[],
+  order?: (cached: ServerToClientMessages[M], received: ServerToClientMessages[M]) => OrderedUpdate<ServerToClientMessages[M]>
+): TopicDefinition<ServerToClientMessages[M]> {
+  return {
+    topic,
+    message,
+    request: `get_${message}`,
+    validate: (payload, mode) => validateMessage(message, payload, mode).value,
+    isEqual,
+    diff,
+    order,
+    event,
+  };
+}
+
+const sameFeatureState = (previous: NcState | AcState, current: NcState | AcState) =>
+  previous[0].enabled === current[0].enabled && previous[1].enabled === current[1].enabled;
+
+/**
+ * Definitions of the topics Krisp Desktop has always supported
+ */
+export const BUILT_IN_TOPICS: TopicDefinition<any>[] = [
+  builtIn('devices', 'device_state', SDKEvent.DEVICES_CHANGED, undefined, diffDevicePair, orderDevicePair),
+  builtIn('nc', 'nc_state', SDKEvent.NOISE_CANCELLATION_CHANGED, sameFeatureState, diffDevicePair, orderDevicePair),
+  builtIn('ac', 'ac_state', SDKEvent.ACCENT_CONVERSION_CHANGED, sameFeatureState, diffDevicePair, orderDevicePair),
+  builtIn('in_call', 'in_call_state', SDKEvent.IN_CALL_CHANGED, (previous, current) =>
+    previous.inCall === current.inCall
+  ),
+];
+
+/**
+ * Topics known to one SDK instance, looked up by topic or by wire message name
+ */
+export class TopicRegistry {
+  private byTopic: Map<string, TopicDefinition<any>> = new Map();
+  private byMessage: Map<string, TopicDefinition<any>> = new Map();
+
+  constructor(definitions: TopicDefinition<any>[] = BUILT_IN_TOPICS) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Add a topic. Throws if its topic or message name is already taken.
+   */
+  public register<T>(definition: TopicDefinition<T>): void {
+    const existing = this.byTopic.get(definition.topic) ?? this.byMessage.get(definition.message);
+    if (existing) {
+      throw new Error(
+        `Topic '${definition.topic}' (message '${definition.message}') conflicts with registered topic '${existing.topic}'`
+      );
+    }
+    this.byTopic.set(definition.topic, definition);
+    this.byMessage.set(definition.message, definition);
+  }
+
+  public get(topic: string): TopicDefinition<any> | undefined {
+    return this.byTopic.get(topic);
+  }
+
+  public getByMessage(message: string): TopicDefinition<any> | undefined {
+    return this.byMessage.get(message);
+  }
+
+  public has(topic: string): boolean {
+    return this.byTopic.has(topic);
+  }
+
+  public list(): TopicDefinition<any>[] {
+    return Array.from(this.byTopic.values());
+  }
+
+  public topics(): TopicName[] {
+    return Array.from(this.byTopic.keys());
+  }
+}
@@ -0,0 +1,19 @@
+import { ManagerOptions, SocketOptions } from 'socket.io-client';
+
+/**
+ * The part of a Socket.IO client socket the SDK uses
+ */
+export interface WireSocket {
+  readonly connected: boolean;
+  on(event: string, handler: (...args: any[]) => void): unknown;
+  off(event: string, handler?: (...args: any[]) => void): unknown;
+  onAny(handler: (event: string, ...args: any[]) => void): unknown;
+  emit(event: string, ...args: any[]): unknown;
+  close(): unknown;
+  removeAllListeners(): unknown;
+}
+
+/**
+ * Opens a socket to `url`; defaults to socket.io-client's `io`
+ */
+export type Transport = (url: string, options: Partial<ManagerOptions & SocketOptions>) => WireSocket;
@@ -0,0 +1,148 @@
+import { DeviceState, NcState, AcState, InCallState } from './types';
+import { SDKEvent, ConnectionState } from './events';
+import { SDKEventEmitter } from './event-emitter';
+import { ErrorCode, KrispSDKError } from './errors';
+import { TimerScheduler, defaultScheduler } from './timers';
+
+/**
+ * Everything the SDK currently knows from the server, as passed to `waitFor`
+ * selectors; states loaded from a snapshot store are null until live data arrives
+ */
+export interface StateSnapshot {
+  devices: DeviceState | null;
+  nc: NcState | null;
+  ac: AcState | null;
+  inCall: InCallState | null;
+  /**
+   * Live state of every registered topic, including custom ones, by topic name
+   */
+  topics: { [topic: string]: unknown };
+  connection: ConnectionState;
+}
+
+export type StateSelector = (snapshot: StateSnapshot) => boolean;
+
+export interface WaitForOptions {
+  /**
+   * Reject with `WAIT_TIMEOUT` after this many ms (default: wait indefinitely)
+   */
+  timeout?: number;
+  signal?: AbortSignal;
+  /**
+   * Reject with `CONNECTION_REFUSED` if an established connection is lost, or
+   * the connection fails or is closed, while waiting (default: true)
+   */
+  rejectOnDisconnect?: boolean;
+}
+
+/**
+ * Resolve with the first snapshot satisfying `selector`, checking the current
+ * state immediately and then after every state or connection change
+ */
+export function waitForState(
+  events: SDKEventEmitter,
+  getSnapshot: () => StateSnapshot,
+  selector: StateSelector,
+  options: WaitForOptions = {},
+  schedule: TimerScheduler = defaultScheduler
+): Promise<StateSnapshot> {
+  const { signal, timeout } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(
+      new KrispSDKError(ErrorCode.REQUEST_ABORTED, 'waitFor was aborted before it started')
+    );
+  }
+
+  const initial = getSnapshot();
+  try {
+    if (selector(initial)) {
+      return Promise.resolve(initial);
+    }
+  } catch (error) {
+    return Promise.reject(selectorError(error));
+  }
+
+  return new Promise((resolve, reject) => {
+    let wasConnected = initial.connection.connected;
+    let previousState = initial.connection.state;
+    let cancelTimer = () => {};
+
+    const cleanup = () => {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+      cancelTimer();
+    };
+
+    const fail = (error: KrispSDKError) => {
+      cleanup();
+      reject(error);
+    };
+
+    const onAbort = () => {
+      fail(new KrispSDKError(ErrorCode.REQUEST_ABORTED, 'waitFor was aborted'));
+    };
+
+    const unsubscribe = events.onAny((event) => {
+      if (event === SDKEvent.ERROR) {
+        return;
+      }
+
+      const snapshot = getSnapshot();
+      let matched: boolean;
+      try {
+        matched = selector(snapshot);
+      } catch (error) {
+        fail(selectorError(error));
+        return;
+      }
+
+      if (matched) {
+        cleanup();
+        resolve(snapshot);
+        return;
+      }
+
+      if (event === SDKEvent.CONNECTION_CHANGED) {
+        const { state, connected } = snapshot.connection;
+        // A connect that fails, or disconnect(), ends the wait whether or not
+        // the connection was up when it began
+        const ended = (state === 'failed' || state === 'closed') && state !== previousState;
+        if ((ended || (wasConnected && !connected)) && options.rejectOnDisconnect !== false) {
+          fail(
+            new KrispSDKError(
+              ErrorCode.CONNECTION_REFUSED,
+              ended
+                ? `Connection ${state} while waiting for state condition`
+                : 'Connection lost while waiting for state condition'
+            )
+          );
+          return;
+        }
+        wasConnected = connected;
+        previousState = state;
+      }
+    });
+
+    signal?.addEventListener('abort', onAbort);
+
+    if (timeout !== undefined) {
+      cancelTimer = schedule(() => {
+        fail(
+          new KrispSDKError(
+            ErrorCode.WAIT_TIMEOUT,
+            `State condition not met within ${timeout}ms`
+          )
+        );
+      }, timeout);
+    }
+  });
+}
+
+function selectorError(error: unknown): KrispSDKError {
+  return new KrispSDKError(
+    ErrorCode.UNKNOWN_ERROR,
+    `waitFor selector threw: ${error}`,
+    error instanceof Error ? error : undefined
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Kind of a captured frame:
+ * - `event`: a Socket.IO event with its payload
+ * - `ack`: the server's acknowledgement of the outbound `event` request
+ * - `connect` / `disconnect`: the socket connected or closed
+ */
+export type WireFrameType = 'event' | 'ack' | 'connect' | 'disconnect';
+
+export interface WireFrame {
+  seq: number;
+  /**
+   * Time since the first frame of the capture, in ms
+   */
+  offset: number;
+  /**
+   * Capture time in ms since the epoch
+   */
+  at: number;
+  direction: 'in' | 'out';
+  type: WireFrameType;
+  /**
+   * Event name; for `ack`, the request being acknowledged
+   */
+  event?: string;
+  /**
+   * Event payload or acknowledgement response, exactly as on the wire
+   */
+  data?: unknown;
+  port?: number;
+  /**
+   * Socket.IO disconnect reason
+   */
+  reason?: string;
+}
+
+export type WireFrameInput = Omit<WireFrame, 'seq' | 'offset' | 'at'>;
+
+export interface WireCaptureOptions {
+  /**
+   * Called with every frame as it is captured, e.g. to append it to a file
+   */
+  onFrame?: (frame: WireFrame) => void;
+  /**
+   * Frames kept in memory; the oldest are dropped beyond this (default: unlimited)
+   */
+  maxFrames?: number;
+  now?: () => number;
+}
+
+/**
+ * Raw Socket.IO traffic of a connection with timing, captured by passing it as
+ * the `capture` option
+ */
+export class WireCapture {
+  private frames: WireFrame[] = [];
+  private seq = 0;
+  private startedAt: number | null = null;
+
+  constructor(private options: WireCaptureOptions = {}) {}
+
+  public record(input: WireFrameInput): void {
+    const at = (this.options.now ?? Date.now)();
+    this.startedAt = this.startedAt ?? at;
+    const frame: WireFrame = {
+      seq: ++this.seq,
+      offset: at - this.startedAt,
+      at,
+      ...input,
+      // Copy so later mutation by handlers cannot alter the capture
+      data: input.data === undefined ? undefined : JSON.parse(JSON.stringify(input.data)),
+    };
+
+    this.frames.push(frame);
+    if (this.options.maxFrames !== undefined && this.frames.length > this.options.maxFrames) {
+      this.frames.shift();
+    }
+    this.options.onFrame?.(frame);
+  }
+
+  public getFrames(): WireFrame[] {
+    return [...this.frames];
+  }
+
+  public clear(): void {
+    this.frames = [];
+    this.seq = 0;
+    this.startedAt = null;
+  }
+
+  /**
+   * The capture as newline-delimited JSON, one frame per line
+   */
+  public toNDJSON(): string {
+    return this.frames.map((frame) => `${JSON.stringify(frame)}\n`).join('');
+  }
+}
+
+/**
+ * Read frames written by `WireCapture.toNDJSON()` or `onFrame`; blank and
+ * malformed lines are skipped
+ */
+export function parseWireCapture(ndjson: string): WireFrame[] {
+  return ndjson
+    .split('\n')
+    .map((line) => {
+      try {
+        return line.trim() ? JSON.parse(line) : null;
+      } catch {
+        return null;
+      }
+    })
+    .filter(
+      (frame): frame is WireFrame =>
+        typeof frame?.seq === 'number' && typeof frame.offset === 'number' && typeof frame.type === 'string'
+    );
+}
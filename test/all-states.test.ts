@@ -0,0 +1,52 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KrispSDKOptions } from '../src';
+import { createMockFeatureState } from '../src/testing';
+import { cleanup, setup, waitUntil } from './helpers';
+
+// A custom topic, which servers predating the handshake never answer
+const voiceTopic: KrispSDKOptions = {
+  topics: [
+    {
+      topic: 'voice',
+      message: 'voice_state',
+      request: 'get_voice_state',
+      validate: (payload) => payload,
+    },
+  ],
+};
+
+describe('getAllStates', () => {
+  afterEach(cleanup);
+
+  it('keeps the topics that were fetched when one of them fails', async () => {
+    const { server, sdk } = await setup({ ...voiceTopic, requestTimeout: 200 }, { handshake: false });
+    server.setNcState(createMockFeatureState(false, true, Date.now()));
+    await sdk.connect();
+
+    const states = await sdk.getAllStates();
+
+    assert.equal(states.nc?.[1].enabled, true);
+    assert.equal(states.topics.voice, undefined);
+  });
+
+  it('does not wait for unconfirmed topics while connecting', async () => {
+    const { server, sdk } = await setup({ ...voiceTopic, requestTimeout: 2000, handshakeTimeout: 100 }, { handshake: false });
+
+    const startedAt = Date.now();
+    await sdk.connect();
+
+    assert.ok(Date.now() - startedAt < 1000);
+    assert.equal(server.getRequests('get_voice_state').length, 0);
+    assert.equal(sdk.getFreshness('nc').stale, false);
+  });
+
+  it('fetches advertised custom topics once the handshake is answered', async () => {
+    const voice = { topic: 'voice', message: 'voice_state', request: 'get_voice_state', state: { enabled: true } };
+    const { server, sdk } = await setup(voiceTopic, { topics: [voice] });
+    await sdk.connect();
+
+    await waitUntil(() => server.getRequests('get_voice_state').length > 0);
+    await waitUntil(() => sdk.getFreshness('voice').stale === false);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, KrispSDKError, SDKEvent, fixedInterval } from '../src';
+import { createMockFeatureState } from '../src/testing';
+import { cleanup, nextEvent, setup, waitUntil } from './helpers';
+
+describe('connect and reconnect', () => {
+  afterEach(cleanup);
+
+  it('fetches the initial states and subscribes on connect', async () => {
+    const { server, sdk } = await setup();
+    server.setNcState(createMockFeatureState(false, true, Date.now()));
+
+    await sdk.connect();
+
+    assert.equal(sdk.getConnectionStatus().state, 'connected');
+    assert.equal(sdk.getFreshness('nc').stale, false);
+    assert.deepEqual(server.getSubscriptions().sort(), ['ac', 'devices', 'in_call', 'nc']);
+    const nc = await sdk.getNoiseCancellationState();
+    assert.equal(nc[1].enabled, true);
+  });
+
+  it('shares one connection between concurrent connect calls', async () => {
+    const { server, sdk } = await setup();
+
+    await Promise.all([sdk.connect(), sdk.connect()]);
+
+    assert.equal(server.getClientCount(), 1);
+  });
+
+  it('rejects when no server answers', async () => {
+    const { server, sdk } = await setup({ connectionTimeout: 200 });
+    await server.stop();
+
+    await assert.rejects(sdk.connect(), KrispSDKError);
+    assert.equal(sdk.getConnectionStatus().connected, false);
+  });
+
+  it('rejects connect() when disconnect() is called while connecting', async () => {
+    const { server, sdk } = await setup();
+
+    const connecting = sdk.connect();
+    sdk.disconnect();
+
+    await assert.rejects(connecting, (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED);
+    assert.equal(sdk.getConnectionStatus().state, 'closed');
+    await waitUntil(() => server.getClientCount() === 0);
+  });
+
+  it('does not wait for the handshake of a server predating it', async () => {
+    const { sdk } = await setup({ handshakeTimeout: 2000 }, { handshake: false });
+
+    const startedAt = Date.now();
+    await sdk.connect();
+
+    assert.ok(Date.now() - startedAt < 1000);
+    assert.equal(sdk.getServerInfo()?.negotiated, false);
+    assert.equal(sdk.getFreshness('nc').stale, false);
+  });
+
+  it('takes on the advertised capabilities once the handshake is answered', async () => {
+    const { sdk } = await setup({}, { allStatesRequest: true });
+    await sdk.connect();
+
+    await waitUntil(() => sdk.getServerInfo()?.negotiated === true);
+
+    assert.ok(sdk.getServerInfo()?.requests.includes('get_all_states'));
+  });
+
+  it('reconnects and re-subscribes after the connection drops', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+    server.clearRequests();
+
+    const reconnected = nextEvent(sdk, SDKEvent.CONNECTION_CHANGED, (state) => state.connected);
+    server.dropConnections();
+    await reconnected;
+    await waitUntil(() => server.getRequests('subscribe').length > 0);
+
+    assert.deepEqual(server.getSubscriptions().sort(), ['ac', 'devices', 'in_call', 'nc']);
+  });
+
+  it('receives pushed changes after reconnecting', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+    server.dropConnections();
+    await nextEvent(sdk, SDKEvent.CONNECTION_CHANGED, (state) => state.connected);
+
+    const changed = nextEvent(sdk, SDKEvent.IN_CALL_CHANGED, ({ current }) => current.inCall);
+    await waitUntil(() => server.getSubscriptions().includes('in_call'));
+    server.setInCallState({ inCall: true, updatedAt: Date.now() });
+
+    assert.equal((await changed).current.inCall, true);
+  });
+
+  it('reports the reconnect schedule in getConnectionStatus() during backoff', async () => {
+    const { server, sdk } = await setup({ reconnectPolicy: fixedInterval({ interval: 5000 }) });
+    await sdk.connect();
+
+    const backoff = nextEvent(sdk, SDKEvent.CONNECTION_CHANGED, (state) => state.state === 'backoff');
+    server.dropConnections();
+    const event = await backoff;
+
+    const status = sdk.getConnectionStatus();
+    assert.equal(status.state, 'backoff');
+    assert.deepEqual(status.reconnect, event.reconnect);
+    assert.equal(status.reconnect?.delay, 5000);
+  });
+
+  it('stays closed after disconnect()', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+
+    sdk.disconnect();
+    await waitUntil(() => server.getClientCount() === 0);
+
+    assert.equal(sdk.getConnectionStatus().state, 'closed');
+    await assert.rejects(sdk.ping(), (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED);
+  });
+});
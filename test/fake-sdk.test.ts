@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SDKEvent } from '../src';
+import { FakeKrispSDK, VirtualClock, createMockFeatureState } from '../src/testing';
+
+describe('FakeKrispSDK', () => {
+  it('does not load socket.io', () => {
+    const loaded = Object.keys(require.cache).filter((path) => /node_modules[\\/]socket\.io[\\/]/.test(path));
+
+    assert.deepEqual(loaded, []);
+  });
+
+  it('emits state changes like the real SDK', async () => {
+    const clock = new VirtualClock(1000);
+    const fake = new FakeKrispSDK({ clock });
+    await fake.connect();
+    const changes: boolean[] = [];
+    fake.on(SDKEvent.NOISE_CANCELLATION_CHANGED, ({ current }) => changes.push(current[1].enabled));
+
+    fake.setNcState(createMockFeatureState(true, true, clock.now()));
+
+    assert.deepEqual(changes, [true]);
+    assert.equal((await fake.getNoiseCancellationState())[1].enabled, true);
+    fake.disconnect();
+  });
+});
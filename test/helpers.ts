@@ -0,0 +1,74 @@
+import { KrispLocalMonitoringSDK, KrispSDKOptions, SDKEvent, SDKEventMap, fixedInterval } from '../src';
+import { MockKrispServer, MockKrispServerOptions } from '../src/testing';
+
+export interface TestEnvironment {
+  server: MockKrispServer;
+  sdk: KrispLocalMonitoringSDK;
+  port: number;
+}
+
+const environments: TestEnvironment[] = [];
+
+/**
+ * Start a mock server on a free port and create an SDK pointed at it. Call
+ * `cleanup()` after each test to disconnect and stop everything created.
+ */
+export async function setup(
+  sdkOptions: KrispSDKOptions = {},
+  serverOptions: MockKrispServerOptions = {}
+): Promise<TestEnvironment> {
+  const server = new MockKrispServer(serverOptions);
+  const port = await server.start(0);
+  const sdk = new KrispLocalMonitoringSDK({
+    ports: [port],
+    reconnectPolicy: fixedInterval({ interval: 10 }),
+    requestTimeout: 1000,
+    ...sdkOptions,
+  });
+  const environment = { server, sdk, port };
+  environments.push(environment);
+  return environment;
+}
+
+export async function cleanup(): Promise<void> {
+  const stopping = environments.splice(0).map(async ({ server, sdk }) => {
+    sdk.disconnect();
+    await server.stop();
+  });
+  await Promise.all(stopping);
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolve with the next `event` whose payload satisfies `predicate`
+ */
+export function nextEvent<E extends SDKEvent>(
+  sdk: KrispLocalMonitoringSDK,
+  event: E,
+  predicate: (data: SDKEventMap[E]) => boolean = () => true
+): Promise<SDKEventMap[E]> {
+  return new Promise((resolve) => {
+    const unsubscribe = sdk.on(event, (data) => {
+      if (predicate(data)) {
+        unsubscribe();
+        resolve(data);
+      }
+    });
+  });
+}
+
+/**
+ * Poll `condition` until it holds; fails the test after `timeout` ms
+ */
+export async function waitUntil(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeout}ms`);
+    }
+    await delay(5);
+  }
+}
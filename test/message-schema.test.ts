@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KrispValidationError, validateMessage } from '../src';
+import { createMockDeviceState, createMockFeatureState } from '../src/testing';
+
+describe('validateMessage', () => {
+  it('accepts a device pair keyed by AudioDeviceType', () => {
+    const state = createMockFeatureState(true, false, 1000);
+
+    assert.deepEqual(validateMessage('nc_state', state).value, state);
+  });
+
+  for (const mode of ['strict', 'lenient'] as const) {
+    it(`accepts a [microphone, speaker] array in ${mode} mode`, () => {
+      const devices = createMockDeviceState(1000);
+
+      const { value } = validateMessage('device_state', [devices[0], devices[1]], mode);
+
+      assert.equal(Array.isArray(value), false);
+      assert.deepEqual(value, devices);
+    });
+  }
+
+  it('rejects an array missing a direction', () => {
+    const state = createMockFeatureState(true, false, 1000);
+
+    assert.throws(
+      () => validateMessage('ac_state', [state[0]]),
+      (error: KrispValidationError) => error.path === 'ac_state[1]'
+    );
+  });
+
+  it('rejects a pair that is not an object', () => {
+    assert.throws(
+      () => validateMessage('nc_state', 'enabled'),
+      (error: KrispValidationError) => error.path === 'nc_state' && error.received === 'string'
+    );
+  });
+
+  it('fills in a missing updatedAt only in lenient mode', () => {
+    const payload = { 0: { enabled: true }, 1: { enabled: false, updatedAt: 1000 } };
+
+    assert.throws(() => validateMessage('nc_state', payload), KrispValidationError);
+    const { value, repairs } = validateMessage('nc_state', payload, 'lenient');
+    assert.equal(typeof value[0].updatedAt, 'number');
+    assert.deepEqual(repairs, ['nc_state[0].updatedAt: missing, using receive time']);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode } from '../src';
+import { cleanup, setup, waitUntil } from './helpers';
+
+describe('offline queue', () => {
+  afterEach(cleanup);
+
+  it('runs calls made while reconnecting once connected', async () => {
+    const { server, sdk } = await setup({ offlineQueue: true, autoSubscribeTopics: ['devices'] });
+    await sdk.connect();
+    server.clearRequests();
+    server.dropConnections();
+    await waitUntil(() => !sdk.getConnectionStatus().connected);
+
+    await Promise.all([sdk.subscribe(['nc']), sdk.ping(), sdk.getInCallState()]);
+
+    assert.deepEqual(server.getSubscriptions().sort(), ['devices', 'nc']);
+    assert.equal(server.getRequests('ping').length, 1);
+  });
+
+  it('deduplicates identical calls and merges topic calls', async () => {
+    const { server, sdk } = await setup({ offlineQueue: true, autoSubscribeTopics: ['devices'] });
+    await sdk.connect();
+    server.dropConnections();
+    await waitUntil(() => !sdk.getConnectionStatus().connected);
+    server.clearRequests();
+
+    await Promise.all([
+      sdk.getNoiseCancellationState(),
+      sdk.getNoiseCancellationState(),
+      sdk.subscribe(['nc']),
+      sdk.subscribe(['ac']),
+    ]);
+
+    assert.equal(server.getRequests('get_nc_state').length, 1);
+    const subscribed = server.getRequests('subscribe').map((request) => request.data.topics);
+    assert.ok(subscribed.some((topics) => topics.includes('nc') && topics.includes('ac')));
+  });
+
+  it('rejects queued calls with CONNECTION_TIMEOUT after the deadline', async () => {
+    const { server, sdk } = await setup({ offlineQueue: { deadline: 100 } });
+    await sdk.connect();
+    await server.stop();
+    await waitUntil(() => !sdk.getConnectionStatus().connected);
+
+    await assert.rejects(sdk.ping(), (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_TIMEOUT);
+  });
+
+  it('rejects calls beyond maxSize with CONNECTION_REFUSED', async () => {
+    const { server, sdk } = await setup({ offlineQueue: { deadline: 100, maxSize: 1 } });
+    await sdk.connect();
+    await server.stop();
+    await waitUntil(() => !sdk.getConnectionStatus().connected);
+
+    const results = await Promise.allSettled([sdk.ping(), sdk.getInCallState()]);
+
+    assert.deepEqual(
+      results.map((result) => (result.status === 'rejected' ? result.reason.code : 'ok')),
+      [ErrorCode.CONNECTION_TIMEOUT, ErrorCode.CONNECTION_REFUSED]
+    );
+  });
+
+  it('rejects queued calls when disconnect() is called', async () => {
+    const { server, sdk } = await setup({ offlineQueue: true });
+    await sdk.connect();
+    await server.stop();
+    await waitUntil(() => !sdk.getConnectionStatus().connected);
+
+    const pinging = sdk.ping();
+    sdk.disconnect();
+
+    await assert.rejects(pinging, (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED);
+  });
+
+  it('rejects right away when the queue is off', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+    server.dropConnections();
+    await waitUntil(() => !sdk.getConnectionStatus().connected);
+
+    await assert.rejects(sdk.ping(), (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SDKEvent, StaleUpdateEvent } from '../src';
+import { createMockDeviceState, createMockFeatureState } from '../src/testing';
+import { cleanup, delay, setup } from './helpers';
+
+describe('update ordering', () => {
+  afterEach(cleanup);
+
+  it('drops a pushed state older than the cached one', async () => {
+    const { server, sdk } = await setup();
+    const now = Date.now();
+    server.setInCallState({ inCall: true, updatedAt: now });
+    await sdk.connect();
+    const dropped: StaleUpdateEvent[] = [];
+    sdk.on(SDKEvent.STALE_UPDATE_DROPPED, (event) => dropped.push(event));
+    const changes: boolean[] = [];
+    sdk.on(SDKEvent.IN_CALL_CHANGED, ({ current }) => changes.push(current.inCall));
+
+    server.setInCallState({ inCall: false, updatedAt: now - 1000 });
+    await delay(50);
+
+    assert.deepEqual(changes, []);
+    assert.equal(dropped.length, 1);
+    assert.deepEqual(dropped[0].stale, ['']);
+    assert.equal((await sdk.waitFor(() => true)).inCall?.inCall, true);
+  });
+
+  it('applies a newer pushed state', async () => {
+    const { server, sdk } = await setup();
+    const now = Date.now();
+    server.setInCallState({ inCall: false, updatedAt: now });
+    await sdk.connect();
+
+    server.setInCallState({ inCall: true, updatedAt: now + 1 });
+    const snapshot = await sdk.waitFor((state) => !!state.inCall?.inCall, { timeout: 1000 });
+
+    assert.equal(snapshot.inCall?.updatedAt, now + 1);
+  });
+
+  it('keeps the newer direction of a partly stale device pair', async () => {
+    const { server, sdk } = await setup();
+    const now = Date.now();
+    server.setNcState(createMockFeatureState(true, true, now));
+    await sdk.connect();
+    const dropped: StaleUpdateEvent[] = [];
+    sdk.on(SDKEvent.STALE_UPDATE_DROPPED, (event) => dropped.push(event));
+
+    const received = createMockFeatureState(false, false, now + 1);
+    received[0] = { enabled: false, updatedAt: now - 1000 };
+    server.setNcState(received);
+    const snapshot = await sdk.waitFor((state) => state.nc?.[1].enabled === false, { timeout: 1000 });
+
+    assert.equal(snapshot.nc?.[0].enabled, true);
+    assert.deepEqual(dropped.map((event) => event.stale), [['microphone']]);
+  });
+
+  it('drops a device state older in both directions', async () => {
+    const { server, sdk } = await setup();
+    const now = Date.now();
+    server.setDeviceState(createMockDeviceState(now));
+    await sdk.connect();
+    const dropped: StaleUpdateEvent[] = [];
+    sdk.on(SDKEvent.STALE_UPDATE_DROPPED, (event) => dropped.push(event));
+
+    server.setDeviceState(createMockDeviceState(now - 1000));
+    await delay(50);
+
+    assert.deepEqual(dropped.map((event) => event.stale), [['microphone', 'speaker']]);
+    assert.equal((await sdk.waitFor(() => true)).devices?.[0].updatedAt, now);
+  });
+});
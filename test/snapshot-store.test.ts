@@ -0,0 +1,100 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { KrispLocalMonitoringSDK, PersistedSnapshot, SDKEvent, SNAPSHOT_VERSION } from '../src';
+import { FakeKrispSDK, VirtualClock, createMockDeviceState, createMockFeatureState } from '../src/testing';
+import { cleanup, setup, waitUntil } from './helpers';
+
+function savedSnapshot(filePath: string): PersistedSnapshot | null {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+describe('snapshot store', () => {
+  const directories: string[] = [];
+  afterEach(async () => {
+    await cleanup();
+    directories.splice(0).forEach((directory) => rmSync(directory, { recursive: true, force: true }));
+  });
+
+  it('keeps the last known state in a file given by path', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'krisp-snapshot-'));
+    directories.push(directory);
+    const filePath = path.join(directory, 'state.json');
+    const { server, sdk } = await setup({ snapshotStore: filePath });
+    server.setNcState(createMockFeatureState(false, true, Date.now()));
+    await sdk.connect();
+    await waitUntil(() => savedSnapshot(filePath)?.topics.nc !== undefined);
+    sdk.disconnect();
+
+    const restarted = new KrispLocalMonitoringSDK({ ports: [], snapshotStore: filePath });
+    await restarted.whenHydrated();
+
+    assert.equal(restarted.getFreshness('nc').cached, true);
+    const snapshot = await restarted.waitFor(() => true);
+    assert.equal(snapshot.nc, null);
+  });
+
+  it('hydrates from an asynchronous load without overriding live states', async () => {
+    const now = 1000;
+    const saves: PersistedSnapshot[] = [];
+    let resolveLoad: (snapshot: PersistedSnapshot) => void = () => {};
+    const clock = new VirtualClock(now);
+    const fake = new FakeKrispSDK({
+      clock,
+      inCallState: { inCall: false, updatedAt: now },
+      snapshotStore: {
+        load: () => new Promise((resolve) => (resolveLoad = resolve)),
+        save: (snapshot) => {
+          saves.push(snapshot);
+        },
+      },
+    });
+    await fake.connect();
+    assert.equal(fake.getFreshness('in_call').cached, false);
+    assert.equal(saves.length, 0);
+
+    resolveLoad({
+      version: SNAPSHOT_VERSION,
+      savedAt: now - 5000,
+      topics: {
+        in_call: { state: { inCall: true, updatedAt: now - 5000 }, receivedAt: now - 5000 },
+      },
+    });
+    await fake.whenHydrated();
+
+    assert.equal(fake.getFreshness('in_call').cached, false);
+    assert.equal((await fake.waitFor(() => true)).inCall?.inCall, false);
+    assert.equal(saves.length, 1);
+    assert.equal((saves[0].topics.in_call.state as { inCall: boolean }).inCall, false);
+    fake.disconnect();
+  });
+
+  it('derives no device events against a snapshot-loaded state', async () => {
+    const clock = new VirtualClock(1000);
+    const saved = createMockDeviceState(500);
+    const live = createMockDeviceState(1000);
+    live[0].physicalDeviceInfo = { ...live[0].physicalDeviceInfo!, isMuted: true };
+    const fake = new FakeKrispSDK({
+      clock,
+      deviceState: live,
+      snapshotStore: {
+        load: () => ({ version: SNAPSHOT_VERSION, savedAt: 500, topics: { devices: { state: saved, receivedAt: 500 } } }),
+        save: () => undefined,
+      },
+    });
+    const events: string[] = [];
+    fake.onAny((event) => events.push(event));
+
+    await fake.connect();
+
+    assert.ok(events.includes(SDKEvent.DEVICES_CHANGED));
+    assert.ok(!events.includes(SDKEvent.MIC_MUTED));
+    fake.disconnect();
+  });
+});
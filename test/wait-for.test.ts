@@ -0,0 +1,106 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode } from '../src';
+import { cleanup, setup, waitUntil } from './helpers';
+
+describe('waitFor', () => {
+  afterEach(cleanup);
+
+  it('resolves immediately when the state already matches', async () => {
+    const { sdk } = await setup();
+    await sdk.connect();
+
+    const snapshot = await sdk.waitFor((state) => state.inCall?.inCall === false);
+
+    assert.equal(snapshot.connection.connected, true);
+  });
+
+  it('resolves once a pushed change matches', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+
+    const waiting = sdk.waitFor((state) => !!state.inCall?.inCall);
+    server.setInCallState({ inCall: true, updatedAt: Date.now() });
+
+    assert.equal((await waiting).inCall?.inCall, true);
+  });
+
+  it('resolves when the connection comes up', async () => {
+    const { sdk } = await setup();
+
+    const waiting = sdk.waitFor((state) => state.connection.connected);
+    await sdk.connect();
+
+    assert.equal((await waiting).connection.connected, true);
+  });
+
+  it('rejects with WAIT_TIMEOUT when the condition is not met in time', async () => {
+    const { sdk } = await setup();
+    await sdk.connect();
+
+    await assert.rejects(
+      sdk.waitFor((state) => !!state.inCall?.inCall, { timeout: 50 }),
+      (error: { code: ErrorCode }) => error.code === ErrorCode.WAIT_TIMEOUT
+    );
+  });
+
+  it('rejects with CONNECTION_REFUSED when the connection is lost', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+
+    const waiting = sdk.waitFor((state) => !!state.inCall?.inCall);
+    server.dropConnections();
+
+    await assert.rejects(waiting, (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED);
+  });
+
+  it('rejects with CONNECTION_REFUSED when a connect started while waiting fails', async () => {
+    const { server, sdk } = await setup({ connectionTimeout: 200, autoReconnect: false });
+    await server.stop();
+
+    const rejected = assert.rejects(
+      sdk.waitFor((state) => !!state.inCall?.inCall),
+      (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED
+    );
+    await assert.rejects(sdk.connect());
+    sdk.disconnect();
+
+    await rejected;
+  });
+
+  it('rejects with CONNECTION_REFUSED on disconnect() before ever connecting', async () => {
+    const { sdk } = await setup();
+
+    const rejected = assert.rejects(
+      sdk.waitFor((state) => !!state.inCall?.inCall),
+      (error: { code: ErrorCode }) => error.code === ErrorCode.CONNECTION_REFUSED
+    );
+    const connecting = sdk.connect().catch(() => undefined);
+    sdk.disconnect();
+    await connecting;
+
+    await rejected;
+  });
+
+  it('keeps waiting through a lost connection when rejectOnDisconnect is false', async () => {
+    const { server, sdk } = await setup();
+    await sdk.connect();
+
+    const waiting = sdk.waitFor((state) => !!state.inCall?.inCall, { rejectOnDisconnect: false });
+    server.dropConnections();
+    await waitUntil(() => server.getSubscriptions().includes('in_call'));
+    server.setInCallState({ inCall: true, updatedAt: Date.now() });
+
+    assert.equal((await waiting).inCall?.inCall, true);
+  });
+
+  it('rejects with REQUEST_ABORTED when its signal aborts', async () => {
+    const { sdk } = await setup();
+    const controller = new AbortController();
+
+    const waiting = sdk.waitFor((state) => state.connection.connected, { signal: controller.signal });
+    controller.abort();
+
+    await assert.rejects(waiting, (error: { code: ErrorCode }) => error.code === ErrorCode.REQUEST_ABORTED);
+  });
+});